@@ -1,21 +1,64 @@
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 
 /**
  * Cloudflare AutoRAG MCP Server
  * Provides search and aiSearch tools for Cloudflare AutoRAG instances
  */
 
-// Note: Filters are not supported in Workers bindings - only available via REST API
+// Note: Filters are not supported in Workers bindings - filtered searches go through the REST API
 
 interface Env {
   AI: {
-    autorag: (name: string) => {
-      search: (params: AutoRAGSearchParams) => Promise<AutoRAGSearchResponse>;
-      aiSearch: (params: AutoRAGAiSearchParams) => Promise<AutoRAGAiSearchResponse>;
-    };
+    autorag: (name: string) => AutoRAGClient;
+    run: (model: string, inputs: Record<string, any>) => Promise<any>;
   };
   VECTORIZE: VectorizeIndex;
+  // R2 bucket AutoRAG indexes, written to by autorag_ingest_document
+  AUTORAG_BUCKET?: R2Bucket;
+  // Must be the embedding model the AutoRAG instance indexes with
+  EMBEDDING_MODEL?: string;
+  // Text generation model writing the query paraphrases of autorag_multi_search
+  PARAPHRASE_MODEL?: string;
+  MCP_SESSION: DurableObjectNamespace;
   AUTORAG_NAME: string;
+  AUTORAG_INSTANCES?: AutoRAGInstance[];
+  // Extra prompt templates; entries with the name of a built-in template replace it
+  PROMPT_TEMPLATES?: unknown[];
+  // Both required for metadata filtering through the REST API
+  CLOUDFLARE_ACCOUNT_ID?: string;
+  CLOUDFLARE_API_TOKEN?: string;
+  // Signs search pagination cursors; without it cursors are only valid in the issuing session
+  CURSOR_SECRET?: string;
+  // API keys as a JSON array of { key, label, tools?, instances? }; setting either enables authentication
+  API_KEYS?: string;
+  // API key scopes ({ label, tools?, instances? }) keyed by the SHA-256 hex digest of the key
+  API_KEYS_KV?: KVNamespace;
+  // Clients, codes and tokens of the OAuth authorization server; setting it enables OAuth
+  OAUTH_KV?: KVNamespace;
+  // Limits per API key, or per IP address for unauthenticated calls; unset means unlimited
+  RATE_LIMITS?: RateLimits;
+  RATE_LIMITER?: DurableObjectNamespace;
+  // Search result cache; TTLs in seconds per tool (default: 300, 0 disables)
+  CACHE_KV?: KVNamespace;
+  CACHE_TTLS?: Record<string, number>;
+  // One data point per tool call; autorag_usage_report reads ANALYTICS_DATASET back through the SQL API
+  ANALYTICS?: AnalyticsEngineDataset;
+  ANALYTICS_DATASET?: string;
+}
+
+interface AutoRAGClient {
+  search(params: AutoRAGSearchParams): Promise<AutoRAGSearchResponse>;
+  // In stream mode the answer arrives as server-sent events in the response body
+  aiSearch(params: AutoRAGAiSearchParams & { stream: true }): Promise<Response>;
+  aiSearch(params: AutoRAGAiSearchParams): Promise<AutoRAGAiSearchResponse>;
+}
+
+interface AutoRAGInstance {
+  name: string;
+  description: string;
+  // Name of the R2 binding holding the instance's source documents (default: AUTORAG_BUCKET)
+  bucket?: string;
 }
 
 interface AutoRAGSearchParams {
@@ -25,7 +68,7 @@ interface AutoRAGSearchParams {
   ranking_options?: {
     score_threshold?: number;
   };
-  // filters parameter removed - not supported in Workers bindings
+  filters?: AutoRAGFilter; // REST API only
 }
 
 interface AutoRAGAiSearchParams {
@@ -36,39 +79,55 @@ interface AutoRAGAiSearchParams {
     score_threshold?: number;
   };
   cursor?: string; // Added for pagination support
-  // filters parameter removed - not supported in Workers bindings
+  filters?: AutoRAGFilter; // REST API only
+}
+
+interface ComparisonFilter {
+  type: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+  key: 'folder' | 'timestamp';
+  value: string | number | boolean;
+}
+
+interface CompoundFilter {
+  type: 'and' | 'or';
+  filters: ComparisonFilter[];
+}
+
+type AutoRAGFilter = ComparisonFilter | CompoundFilter;
+
+// search and aiSearch return the same per-file result shape
+interface AutoRAGSearchResult {
+  file_id: string;
+  filename: string;
+  score: number;
+  attributes?: Record<string, any>;
+  content: Array<{
+    id: string;
+    type: string;
+    text: string;
+  }>;
 }
 
 interface AutoRAGSearchResponse {
   object: string;
   search_query: string;
-  data: Array<{
-    file_id: string;
-    content: string;
-    score: number;
-    metadata?: Record<string, any>;
-  }>;
+  data: AutoRAGSearchResult[];
 }
 
 interface AutoRAGAiSearchResponse {
   object: string;
   search_query: string;
   response: string;
-  data: Array<{
-    file_id: string;
-    filename: string;
-    score: number;
-    attributes?: Record<string, any>;
-    content: Array<{
-      id: string;
-      type: string;
-      text: string;
-    }>;
-  }>;
+  data: AutoRAGSearchResult[];
   has_more: boolean;
   next_page: string | null;
 }
 
+interface FederatedSearchResult extends AutoRAGSearchResult {
+  instance: string;
+  normalized_score: number;
+}
+
 interface JsonRpcRequest {
   jsonrpc: string;
   id?: string | number | null;
@@ -76,6 +135,12 @@ interface JsonRpcRequest {
   params?: any;
 }
 
+interface JsonRpcNotification {
+  jsonrpc: string;
+  method: string;
+  params?: any;
+}
+
 interface JsonRpcResponse {
   jsonrpc: string;
   id?: string | number | null;
@@ -91,6 +156,93 @@ interface Tool {
   name: string;
   description: string;
   inputSchema: any;
+  outputSchema?: any;
+  annotations?: ToolAnnotations;
+}
+
+interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+// Introduced in 2025-06-18; dropped from results for older clients
+interface ResourceLinkContent {
+  type: 'resource_link';
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+interface ToolResult {
+  content: Array<TextContent | ResourceLinkContent>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+interface ResourceTemplateHandlers {
+  // Concrete resources currently known for the template
+  list: () => Promise<Resource[]>;
+  read: (uri: string, variables: Record<string, string>) => Promise<ResourceContents[]>;
+  // AutoRAG instances a read touches, checked against the caller's API key scope
+  instances?: (variables: Record<string, string>) => string[];
+}
+
+interface ToolOptions {
+  annotations?: ToolAnnotations;
+  outputSchema?: z.ZodSchema;
+  // AutoRAG instances a call touches, checked against the caller's API key scope and recorded in metrics
+  instances?: (params: any, scope?: KeyScope) => string[];
+}
+
+interface PromptOptions {
+  // AutoRAG instances a prompt retrieves from, checked against the caller's API key scope
+  instances?: (args: any) => string[];
+}
+
+// What an API key may use; an omitted list allows everything
+interface KeyScope {
+  label: string;
+  // SHA-256 hex digest of the API key; set when the key is looked up, never configured
+  digest?: string;
+  tools?: string[];
+  instances?: string[];
+  // Overrides RATE_LIMITS for this key
+  rate_limits?: RateLimits;
+}
+
+interface RateLimits {
+  requests_per_minute?: number;
+  ai_answers_per_day?: number;
 }
 
 interface McpServerInfo {
@@ -98,128 +250,490 @@ interface McpServerInfo {
   version: string;
 }
 
+interface PromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+interface PromptResult {
+  description?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: TextContent;
+  }>;
+}
+
 interface McpCapabilities {
   tools?: {};
+  resources?: {};
+  prompts?: {};
   logging?: {};
 }
 
+interface RequestHandlerExtra {
+  // Aborted when the client cancels the request with notifications/cancelled
+  signal: AbortSignal;
+  // Sends a notification related to the request being handled (e.g. progress)
+  sendNotification: (notification: JsonRpcNotification) => Promise<void>;
+  // Set when the client asked for progress notifications through _meta.progressToken
+  progressToken?: string | number;
+  // Scope of the caller's API key, when authentication is enabled
+  scope?: KeyScope;
+  // Sends a notifications/message when the level is at or above the one set with logging/setLevel
+  log: (level: LoggingLevel, logger: string, data: unknown) => Promise<void>;
+  // ID of the HTTP request the message arrived in, returned in the X-Trace-Id header and result _meta
+  traceId?: string;
+  // Counts a generated answer against ai_answers_per_day; throws an McpError once the limit is reached
+  countAiAnswer?: () => Promise<void>;
+}
+
+interface ToolCallMetrics {
+  tool: string;
+  instances: string[];
+  latency_ms: number;
+  result_count: number;
+  top_score: number | null;
+  error_code?: string;
+  cache?: string;
+  trace_id?: string;
+}
+
+type NotificationHandler = (params: any) => Promise<void> | void;
+
+interface SessionState {
+  createdAt: number;
+  protocolVersion: string;
+  loggingLevel?: LoggingLevel;
+  // Digest of the API key that initialized the session; only that key may use it
+  keyDigest?: string;
+}
+
+// RFC 5424 severities as used by MCP logging, least severe first
+const LOGGING_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+type LoggingLevel = typeof LOGGING_LEVELS[number];
+// Applies until the client calls logging/setLevel; search steps are logged at debug and stay hidden
+const DEFAULT_LOGGING_LEVEL: LoggingLevel = 'info';
+
+// Newest first; the first entry is offered to clients requesting an unknown revision
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Revisions are dates, so they compare correctly as strings
+function supportsFeature(protocolVersion: string, since: string): boolean {
+  return protocolVersion >= since;
+}
+
+/**
+ * Error surfaced to the client as a JSON-RPC error object with the given code
+ */
+class McpError extends Error {
+  code: number;
+  data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+type ToolErrorCode =
+  | 'misconfigured_binding'
+  | 'instance_not_found'
+  | 'quota_exceeded'
+  | 'upstream_timeout'
+  | 'invalid_input'
+  | 'upstream_error';
+
+// Whether the same call may succeed later without the caller or the operator changing anything
+const RETRYABLE_TOOL_ERRORS: Record<ToolErrorCode, boolean> = {
+  misconfigured_binding: false,
+  instance_not_found: false,
+  quota_exceeded: true,
+  upstream_timeout: true,
+  invalid_input: false,
+  upstream_error: true
+};
+
+/**
+ * A tool failure. Unlike McpError it is reported as a tool result with isError set,
+ * so the model sees it and agents can branch on its code.
+ */
+class ToolError extends Error {
+  code: ToolErrorCode;
+  retryable: boolean;
+
+  constructor(code: ToolErrorCode, message: string, retryable: boolean = RETRYABLE_TOOL_ERRORS[code]) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+function toolErrorCodeForStatus(status: number): ToolErrorCode {
+  if (status === 400 || status === 422) {
+    return 'invalid_input';
+  }
+  if (status === 401 || status === 403) {
+    return 'misconfigured_binding';
+  }
+  if (status === 404) {
+    return 'instance_not_found';
+  }
+  if (status === 429) {
+    return 'quota_exceeded';
+  }
+  if (status === 408 || status === 504 || status === 524) {
+    return 'upstream_timeout';
+  }
+  return 'upstream_error';
+}
+
+// Binding errors carry no status, so they are classified by name and message
+function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if ((error instanceof Error && error.name === 'TimeoutError') || /timed? ?out|timeout|deadline exceeded/i.test(message)) {
+    return new ToolError('upstream_timeout', message);
+  }
+  if (/rate limit|quota|capacity|neurons|allocation|too many requests/i.test(message)) {
+    return new ToolError('quota_exceeded', message);
+  }
+  if (/not found|does not exist/i.test(message) && /autorag|\brag\b|instance/i.test(message)) {
+    return new ToolError('instance_not_found', message);
+  }
+  return new ToolError('upstream_error', message);
+}
+
+function toolErrorResult(error: unknown, context?: string): ToolResult {
+  // Protocol errors, such as a reached rate limit, are answered as JSON-RPC errors instead
+  if (error instanceof McpError) {
+    throw error;
+  }
+  const { code, message, retryable } = toToolError(error);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error: { code, message: context ? `${context}: ${message}` : message, retryable } }, null, 2)
+      }
+    ],
+    isError: true
+  };
+}
+
+// Search tools return hits in data, autorag_vectorize_query in matches; failures carry their code in the text
+function toolCallMetrics(
+  tool: string,
+  instances: string[],
+  latencyMs: number,
+  result: ToolResult,
+  traceId?: string
+): ToolCallMetrics {
+  const structured = result.structuredContent;
+  const hits: Array<{ score?: number }> = structured?.data ?? structured?.matches ?? [];
+  let errorCode: string | undefined;
+  if (result.isError) {
+    try {
+      errorCode = JSON.parse((result.content[0] as TextContent).text).error.code;
+    } catch {
+      errorCode = 'upstream_error';
+    }
+  }
+  const scores = hits.map(hit => hit.score).filter((score): score is number => typeof score === 'number');
+
+  return {
+    tool,
+    instances,
+    latency_ms: latencyMs,
+    result_count: hits.length,
+    top_score: scores.length > 0 ? Math.max(...scores) : null,
+    error_code: errorCode,
+    cache: structured?.cache,
+    trace_id: traceId
+  };
+}
+
+function formatZodIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// Inline every subschema so clients that do not resolve $ref still see the full contract
+function toToolJsonSchema(schema: z.ZodSchema): any {
+  return zodToJsonSchema(schema, {
+    strictUnions: true,
+    $refStrategy: 'none'
+  });
+}
+
 class WorkersMcpServer {
   private serverInfo: McpServerInfo;
   private capabilities: McpCapabilities;
   private tools: Map<string, {
     description: string;
+    schema: z.ZodSchema;
     inputSchema: any;
-    handler: (params: any) => Promise<{ content: Array<{ type: string; text: string }> }>;
+    outputSchema?: any;
+    annotations?: ToolAnnotations;
+    instances?: (params: any, scope?: KeyScope) => string[];
+    handler: (params: any, extra: RequestHandlerExtra) => Promise<ToolResult>;
+  }> = new Map();
+  private prompts: Map<string, {
+    description: string;
+    schema: z.AnyZodObject;
+    arguments: PromptArgument[];
+    instances?: (args: any) => string[];
+    handler: (args: any) => Promise<PromptResult>;
   }> = new Map();
+  private resourceTemplates: Array<{
+    template: ResourceTemplate;
+    pattern: RegExp;
+    variables: string[];
+    handlers: ResourceTemplateHandlers;
+  }> = [];
+  private notificationHandlers: Map<string, NotificationHandler[]> = new Map();
+  private inFlightRequests: Map<string | number, AbortController> = new Map();
+
+  // Negotiated during initialize; restored from session storage when the session is resumed
+  protocolVersion: string = LATEST_PROTOCOL_VERSION;
+  // Set by the client with logging/setLevel; restored from session storage like protocolVersion
+  loggingLevel: LoggingLevel = DEFAULT_LOGGING_LEVEL;
 
-  constructor(serverInfo: McpServerInfo, options: { capabilities: McpCapabilities }) {
+  private onToolCall?: (metrics: ToolCallMetrics) => void;
+
+  constructor(
+    serverInfo: McpServerInfo,
+    options: { capabilities: McpCapabilities; onToolCall?: (metrics: ToolCallMetrics) => void }
+  ) {
     this.serverInfo = serverInfo;
     this.capabilities = options.capabilities;
+    this.onToolCall = options.onToolCall;
+
+    this.addNotificationHandler('notifications/cancelled', ({ requestId }) => {
+      this.inFlightRequests.get(requestId)?.abort();
+    });
   }
 
   addTool(
     name: string,
     description: string,
     inputSchema: z.ZodSchema,
-    handler: (params: any) => Promise<{ content: Array<{ type: string; text: string }> }>
+    handler: (params: any, extra: RequestHandlerExtra) => Promise<ToolResult>,
+    options: ToolOptions = {}
   ) {
     this.tools.set(name, {
       description,
-      inputSchema: this.zodToJsonSchema(inputSchema),
+      schema: inputSchema,
+      inputSchema: toToolJsonSchema(inputSchema),
+      outputSchema: options.outputSchema && toToolJsonSchema(options.outputSchema),
+      annotations: options.annotations,
+      instances: options.instances,
       handler
     });
   }
 
-  private zodToJsonSchema(schema: z.ZodSchema): any {
-    // Handle union types
-    if (schema instanceof z.ZodUnion) {
-      const types = schema._def.options.map((opt: z.ZodSchema) => this.zodToJsonSchema(opt));
-      return { oneOf: types };
-    }
-    
-    // Basic Zod to JSON Schema conversion
-    if (schema instanceof z.ZodObject) {
-      const properties: Record<string, any> = {};
-      const required: string[] = [];
-      
-      const shape = schema.shape;
-      for (const [key, value] of Object.entries(shape)) {
-        if (value instanceof z.ZodString) {
-          properties[key] = { type: 'string', description: value.description };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodNumber) {
-          properties[key] = { type: 'number', description: value.description };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodBoolean) {
-          properties[key] = { type: 'boolean', description: value.description };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodRecord) {
-          properties[key] = { type: 'object', description: value.description };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodObject) {
-          // Handle nested objects like FiltersSchema
-          properties[key] = this.zodToJsonSchema(value);
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodOptional) {
-          const innerType = value._def.innerType;
-          if (innerType instanceof z.ZodString) {
-            properties[key] = { type: 'string', description: innerType.description };
-          } else if (innerType instanceof z.ZodNumber) {
-            properties[key] = { type: 'number', description: innerType.description };
-          } else if (innerType instanceof z.ZodBoolean) {
-            properties[key] = { type: 'boolean', description: innerType.description };
-          } else if (innerType instanceof z.ZodRecord) {
-            properties[key] = { type: 'object', description: innerType.description };
-          } else if (innerType instanceof z.ZodObject) {
-            // Handle nested objects inside optional
-            properties[key] = this.zodToJsonSchema(innerType);
-          }
+  /**
+   * Registers a prompt. MCP prompt arguments are always strings, so argsSchema should
+   * only contain (optional) string fields; they are listed with their descriptions.
+   */
+  addPrompt(
+    name: string,
+    description: string,
+    argsSchema: z.AnyZodObject,
+    handler: (args: any) => Promise<PromptResult>,
+    options: PromptOptions = {}
+  ) {
+    this.prompts.set(name, {
+      description,
+      schema: argsSchema,
+      arguments: Object.entries(argsSchema.shape as Record<string, z.ZodTypeAny>).map(([argument, field]) => ({
+        name: argument,
+        description: field.description,
+        required: !field.isOptional()
+      })),
+      instances: options.instances,
+      handler
+    });
+  }
+
+  /**
+   * Registers a URI template such as autorag://{instance}/file/{file_id}.
+   * Each {variable} matches one path segment and is passed to read() URI-decoded.
+   */
+  addResourceTemplate(template: ResourceTemplate, handlers: ResourceTemplateHandlers) {
+    const variables: string[] = [];
+    const source = template.uriTemplate
+      .split(/(\{[^}]+\})/)
+      .map(part => {
+        const variable = part.match(/^\{([^}]+)\}$/);
+        if (variable) {
+          variables.push(variable[1]);
+          return '([^/]+)';
         }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    this.resourceTemplates.push({
+      template,
+      pattern: new RegExp(`^${source}$`),
+      variables,
+      handlers
+    });
+  }
+
+  /**
+   * Subscribes to a client notification such as notifications/initialized,
+   * notifications/cancelled or notifications/roots/list_changed
+   */
+  addNotificationHandler(method: string, handler: NotificationHandler) {
+    const handlers = this.notificationHandlers.get(method) ?? [];
+    handlers.push(handler);
+    this.notificationHandlers.set(method, handlers);
+  }
+
+  /**
+   * Checks a request against an API key's scope before it is handled. Returns why the key
+   * may not make the request, or undefined when it may. Requests with invalid arguments
+   * pass and are rejected by handleRequest.
+   */
+  authorize(request: JsonRpcRequest, scope: KeyScope): string | undefined {
+    const { method, params } = request;
+    let instances: string[] = [];
+
+    if (method === 'tools/call') {
+      const tool = this.tools.get(params?.name);
+      if (!tool) {
+        return undefined;
       }
-      
-      return {
-        type: 'object',
-        properties,
-        required
-      };
+      if (scope.tools && !scope.tools.includes(params.name)) {
+        return `API key '${scope.label}' may not call tool ${params.name}`;
+      }
+      const parsed = tool.schema.safeParse(params.arguments ?? {});
+      instances = parsed.success ? tool.instances?.(parsed.data, scope) ?? [] : [];
+    } else if (method === 'prompts/get') {
+      const prompt = this.prompts.get(params?.name);
+      const parsed = prompt?.schema.safeParse(params.arguments ?? {});
+      instances = parsed?.success ? prompt!.instances?.(parsed.data) ?? [] : [];
+    } else if (method === 'resources/read') {
+      const resource = this.matchResource(params?.uri);
+      instances = resource?.handlers.instances?.(resource.values) ?? [];
     }
-    
-    // Handle primitives
-    if (schema instanceof z.ZodString) {
-      return { type: 'string', description: schema.description };
+
+    const denied = scope.instances ? instances.filter(instance => !scope.instances!.includes(instance)) : [];
+    return denied.length > 0
+      ? `API key '${scope.label}' may not use AutoRAG instance ${denied.join(', ')}`
+      : undefined;
+  }
+
+  private matchResource(uri: unknown): { handlers: ResourceTemplateHandlers; values: Record<string, string> } | undefined {
+    for (const { pattern, variables, handlers } of this.resourceTemplates) {
+      const match = typeof uri === 'string' ? uri.match(pattern) : null;
+      if (match) {
+        const values = Object.fromEntries(variables.map((variable, index) => [variable, decodeURIComponent(match[index + 1])]));
+        return { handlers, values };
+      }
     }
-    if (schema instanceof z.ZodNumber) {
-      return { type: 'number', description: schema.description };
+    return undefined;
+  }
+
+  async handleNotification(notification: JsonRpcNotification): Promise<void> {
+    // Notifications are never answered, so unknown methods and handler failures are only logged
+    const handlers = this.notificationHandlers.get(notification.method) ?? [];
+    for (const handler of handlers) {
+      try {
+        await handler(notification.params ?? {});
+      } catch (error) {
+        console.error(`Error handling notification '${notification.method}':`, error);
+      }
     }
-    if (schema instanceof z.ZodBoolean) {
-      return { type: 'boolean', description: schema.description };
+  }
+
+  // Returns undefined when the client cancelled the request: a cancelled request gets no response
+  async handleRequest(
+    request: JsonRpcRequest,
+    options: Omit<RequestHandlerExtra, 'signal' | 'progressToken' | 'log'>
+  ): Promise<JsonRpcResponse | undefined> {
+    const { params, id } = request;
+
+    const controller = new AbortController();
+    const extra: RequestHandlerExtra = {
+      ...options,
+      signal: controller.signal,
+      progressToken: params?._meta?.progressToken,
+      log: async (level, logger, data) => {
+        if (LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(this.loggingLevel)) {
+          await options.sendNotification({
+            jsonrpc: '2.0',
+            method: 'notifications/message',
+            params: { level, logger, data }
+          });
+        }
+      }
+    };
+    if (id !== undefined && id !== null) {
+      this.inFlightRequests.set(id, controller);
+    }
+
+    try {
+      const response = await this.respond(request, extra);
+      // Handlers that do not watch the signal still run to the end, so their result is dropped here
+      return controller.signal.aborted ? undefined : response;
+    } finally {
+      if (id !== undefined && id !== null) {
+        this.inFlightRequests.delete(id);
+      }
     }
-    
-    return { type: 'object' };
   }
 
-  async handleRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  private async respond(request: JsonRpcRequest, extra: RequestHandlerExtra): Promise<JsonRpcResponse> {
     const { method, params, id } = request;
 
     try {
       switch (method) {
         case 'initialize':
+          const requestedVersion = params?.protocolVersion;
+          this.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+            ? requestedVersion
+            : LATEST_PROTOCOL_VERSION;
+
           return {
             jsonrpc: '2.0',
             id,
             result: {
-              protocolVersion: '2024-11-05',
+              protocolVersion: this.protocolVersion,
               capabilities: this.capabilities,
               serverInfo: this.serverInfo
             }
           };
 
         case 'tools/list':
-          const tools: Tool[] = Array.from(this.tools.entries()).map(([name, tool]) => ({
-            name,
-            description: tool.description,
-            inputSchema: tool.inputSchema
-          }));
+          // Keys limited to some tools only see those
+          const tools: Tool[] = Array.from(this.tools.entries())
+            .filter(([name]) => !extra.scope?.tools || extra.scope.tools.includes(name))
+            .map(([name, tool]) => {
+              const listed: Tool = {
+                name,
+                description: tool.description,
+                inputSchema: tool.inputSchema
+              };
+              // Tool annotations were introduced in 2025-03-26, output schemas in 2025-06-18
+              if (tool.annotations && supportsFeature(this.protocolVersion, '2025-03-26')) {
+                listed.annotations = tool.annotations;
+              }
+              if (tool.outputSchema && supportsFeature(this.protocolVersion, '2025-06-18')) {
+                listed.outputSchema = tool.outputSchema;
+              }
+              return listed;
+            });
           
           return {
             jsonrpc: '2.0',
@@ -228,6 +742,9 @@ class WorkersMcpServer {
           };
 
         case 'tools/call':
+          if (typeof params?.name !== 'string') {
+            throw new McpError(-32602, 'Invalid params: tools/call requires the tool name in params.name');
+          }
           const { name, arguments: args } = params;
           const tool = this.tools.get(name);
           
@@ -242,38 +759,130 @@ class WorkersMcpServer {
             };
           }
 
-          // Check for filters parameter and provide helpful error
-          if (args && args.filters) {
+          const started = Date.now();
+          const parsed = tool.schema.safeParse(args ?? {});
+          if (!parsed.success) {
+            this.onToolCall?.({
+              tool: name,
+              instances: [],
+              latency_ms: Date.now() - started,
+              result_count: 0,
+              top_score: null,
+              error_code: 'invalid_input',
+              trace_id: extra.traceId
+            });
             return {
               jsonrpc: '2.0',
               id,
               error: {
                 code: -32602,
-                message: 'Invalid params',
-                data: 'Metadata filtering is not supported in Workers bindings. Please use the REST API for filtered queries. See: https://developers.cloudflare.com/autorag/usage/rest-api/'
+                message: `Invalid arguments for tool ${name}: ${formatZodIssues(parsed.error.issues)}`,
+                data: parsed.error.issues.map(issue => ({
+                  path: issue.path.join('.'),
+                  message: issue.message,
+                  ...('expected' in issue ? { expected: issue.expected, received: issue.received } : {})
+                }))
               }
             };
           }
 
-          const result = await tool.handler(args);
+          // Handlers may throw a ToolError before they get to their own error handling
+          const { structuredContent, ...result } = await tool.handler(parsed.data, extra).catch(error => {
+            if (error instanceof ToolError) {
+              return toolErrorResult(error);
+            }
+            throw error;
+          });
+          // A cancelled call gets no response, so it is not recorded either
+          if (!extra.signal.aborted) {
+            this.onToolCall?.(toolCallMetrics(
+              name,
+              tool.instances?.(parsed.data, extra.scope) ?? [],
+              Date.now() - started,
+              { ...result, structuredContent },
+              extra.traceId
+            ));
+          }
+          if (!supportsFeature(this.protocolVersion, '2025-06-18')) {
+            result.content = result.content.filter(item => item.type !== 'resource_link');
+          }
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: supportsFeature(this.protocolVersion, '2025-06-18') && structuredContent
+              ? { ...result, structuredContent }
+              : result
+          };
+
+        case 'logging/setLevel':
+          if (!LOGGING_LEVELS.includes(params?.level)) {
+            throw new McpError(-32602, `Invalid log level '${params?.level}'`, { levels: LOGGING_LEVELS });
+          }
+          this.loggingLevel = params.level;
           return {
             jsonrpc: '2.0',
             id,
-            result
+            result: {}
           };
 
         case 'resources/list':
+          const resources = await Promise.all(this.resourceTemplates.map(({ handlers }) => handlers.list()));
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: { resources: resources.flat() }
+          };
+
+        case 'resources/templates/list':
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: { resourceTemplates: this.resourceTemplates.map(({ template }) => template) }
+          };
+
+        case 'resources/read':
+          const uri: string = params?.uri;
+          const resource = this.matchResource(uri);
+          if (!resource) {
+            throw new McpError(-32002, 'Resource not found', { uri });
+          }
           return {
             jsonrpc: '2.0',
             id,
-            result: { resources: [] }
+            result: { contents: await resource.handlers.read(uri, resource.values) }
           };
 
         case 'prompts/list':
           return {
             jsonrpc: '2.0',
             id,
-            result: { prompts: [] }
+            result: {
+              prompts: Array.from(this.prompts.entries()).map(([name, prompt]) => ({
+                name,
+                description: prompt.description,
+                arguments: prompt.arguments
+              }))
+            }
+          };
+
+        case 'prompts/get':
+          const prompt = this.prompts.get(params?.name);
+          if (!prompt) {
+            throw new McpError(-32602, `Prompt '${params?.name}' not found`);
+          }
+
+          const promptArgs = prompt.schema.safeParse(params.arguments ?? {});
+          if (!promptArgs.success) {
+            throw new McpError(
+              -32602,
+              `Invalid arguments for prompt ${params.name}: ${formatZodIssues(promptArgs.error.issues)}`
+            );
+          }
+
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: await prompt.handler(promptArgs.data)
           };
 
         default:
@@ -287,6 +896,17 @@ class WorkersMcpServer {
           };
       }
     } catch (error) {
+      if (error instanceof McpError) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: error.code,
+            message: error.message,
+            data: error.data
+          }
+        };
+      }
       return {
         jsonrpc: '2.0',
         id,
@@ -299,244 +919,3041 @@ class WorkersMcpServer {
   }
 }
 
-function createServer(env: Env): WorkersMcpServer {
-  const server = new WorkersMcpServer({
-    name: 'cloudflare-autorag-mcp',
-    version: '1.2.0',
-  }, { 
-    capabilities: { 
-      tools: {},
-      logging: {}
-    } 
-  });
+// Chunk fields differ between the search and aiSearch bindings, so only the common ones are required
+const SearchResultSchema = z.object({
+  file_id: z.string(),
+  score: z.number(),
+  // Set in hybrid mode, where score is the fused score
+  vector_score: z.number().optional(),
+  lexical_score: z.number().optional()
+}).passthrough();
 
-  // Basic search tool
-  server.addTool(
-    'autorag_basic_search',
-    'Basic search for documents in Cloudflare AutoRAG without query rewriting or answer generation',
-    z.object({
-      query: z.string().describe('The search query to find relevant documents'),
-      score_threshold: z.number().optional().describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
-      max_num_results: z.number().optional().describe('Maximum number of results to return')
-    }),
-    async ({ query, score_threshold, max_num_results }) => {
-      try {
-        const searchParams: AutoRAGSearchParams = { 
-          query,
-          rewrite_query: false, // Basic search never rewrites query
-          ranking_options: {
-            score_threshold: score_threshold ?? 0.5 // Default threshold of 0.5
-          }
-        };
-        if (max_num_results !== undefined) {
-          searchParams.max_num_results = max_num_results;
-        }
+const CacheStatusSchema = z.enum(['hit', 'miss', 'bypass']).optional();
 
-        const result = await env.AI.autorag(env.AUTORAG_NAME).search(searchParams);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error searching AutoRAG: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
-      }
-    }
-  );
+const SearchOutputSchema = z.object({
+  object: z.string(),
+  search_query: z.string(),
+  data: z.array(SearchResultSchema),
+  cache: CacheStatusSchema
+});
 
-  // Search with query rewriting but NO AI generation
-  server.addTool(
-    'autorag_rewrite_search',
-    'Search for documents in Cloudflare AutoRAG with AI query rewriting but NO answer generation (returns document chunks only)',
-    z.object({
-      query: z.string().describe('The search query to find relevant documents with AI query rewriting'),
-      score_threshold: z.number().optional().describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
-      max_num_results: z.number().optional().describe('Maximum number of results to return'),
-      rewrite_query: z.boolean().optional().describe('Whether to rewrite the query using AI (default: true)')
-    }),
-    async ({ query, score_threshold, max_num_results, rewrite_query }) => {
-      try {
-        // Use search method with configurable rewrite_query for AI-powered ranking without generation
-        const searchParams: AutoRAGSearchParams = { 
-          query,
-          rewrite_query: rewrite_query ?? true, // Default to true for rewrite search
-          ranking_options: {
-            score_threshold: score_threshold ?? 0.5 // Default threshold of 0.5
+const PagedSearchOutputSchema = SearchOutputSchema.extend({
+  has_more: z.boolean(),
+  next_page: z.string().nullable(),
+  nextCursor: z.string().optional()
+});
+
+const AiSearchOutputSchema = PagedSearchOutputSchema.extend({
+  response: z.string().optional()
+});
+
+const ComparisonFilterSchema = z.object({
+  type: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte']).describe('Comparison operator'),
+  key: z.enum(['folder', 'timestamp']).describe('Metadata attribute to compare'),
+  value: z.union([z.string(), z.number(), z.boolean()]).describe('Value to compare against (folder path such as "customer-a/", or a timestamp)')
+});
+
+const FiltersSchema = z.union([
+  ComparisonFilterSchema,
+  z.object({
+    type: z.enum(['and', 'or']).describe('Compound operator'),
+    filters: z.array(ComparisonFilterSchema).min(1).describe('Comparison filters to combine')
+  })
+]).describe('Metadata filter on folder or timestamp (requires CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN)');
+
+const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-m3';
+
+const VectorizeFilterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const VectorizeFilterSchema = z.record(z.union([
+  VectorizeFilterValueSchema,
+  z.object({
+    $eq: VectorizeFilterValueSchema,
+    $ne: VectorizeFilterValueSchema,
+    $lt: VectorizeFilterValueSchema,
+    $lte: VectorizeFilterValueSchema,
+    $gt: VectorizeFilterValueSchema,
+    $gte: VectorizeFilterValueSchema,
+    $in: z.array(VectorizeFilterValueSchema),
+    $nin: z.array(VectorizeFilterValueSchema)
+  }).partial().strict()
+])).describe('Vectorize metadata filter, e.g. {"folder": {"$eq": "docs/"}} (only indexed metadata fields can be filtered)');
+
+const VectorizeQueryOutputSchema = z.object({
+  query: z.string(),
+  model: z.string(),
+  count: z.number(),
+  matches: z.array(z.object({
+    id: z.string(),
+    score: z.number(),
+    namespace: z.string().optional(),
+    metadata: z.record(z.any()).optional(),
+    values: z.array(z.number()).optional()
+  }))
+});
+
+const AUTORAG_API_BASE = 'https://api.cloudflare.com/client/v4/accounts';
+
+async function autoragApiRequest<T>(
+  accountId: string,
+  apiToken: string,
+  rag: string,
+  endpoint: string,
+  init: { method: string; body?: unknown; signal?: AbortSignal }
+): Promise<T> {
+  const response = await fetch(`${AUTORAG_API_BASE}/${accountId}/autorag/rags/${encodeURIComponent(rag)}/${endpoint}`, {
+    method: init.method,
+    headers: {
+      'Authorization': `Bearer ${apiToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    signal: init.signal
+  });
+
+  const body = await response.json().catch(() => null) as {
+    success: boolean;
+    errors?: Array<{ code: number; message: string }>;
+    result: T;
+  } | null;
+  if (!response.ok || !body?.success) {
+    const messages = body?.errors?.map(error => error.message).join('; ') || response.statusText;
+    throw new ToolError(toolErrorCodeForStatus(response.status), `AutoRAG REST API error (${response.status}): ${messages}`);
+  }
+  return body.result;
+}
+
+// Streaming endpoints answer with an event stream instead of the JSON envelope
+async function autoragApiStream(
+  accountId: string,
+  apiToken: string,
+  rag: string,
+  endpoint: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(`${AUTORAG_API_BASE}/${accountId}/autorag/rags/${encodeURIComponent(rag)}/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as { errors?: Array<{ message: string }> } | null;
+    const messages = error?.errors?.map(({ message }) => message).join('; ') || response.statusText;
+    throw new ToolError(toolErrorCodeForStatus(response.status), `AutoRAG REST API error (${response.status}): ${messages}`);
+  }
+  return response;
+}
+
+/**
+ * AutoRAG client backed by the REST API, used for filtered searches since the
+ * Workers binding does not accept filters. Unlike the binding, its requests stop when
+ * signal aborts.
+ */
+function createRestClient(accountId: string, apiToken: string, rag: string, signal?: AbortSignal): AutoRAGClient {
+  const aiSearch = (params: AutoRAGAiSearchParams & { stream?: boolean }) => params.stream
+    ? autoragApiStream(accountId, apiToken, rag, 'ai-search', params, signal)
+    : autoragApiRequest<AutoRAGAiSearchResponse>(accountId, apiToken, rag, 'ai-search', { method: 'POST', body: params, signal });
+
+  return {
+    search: params => autoragApiRequest<AutoRAGSearchResponse>(accountId, apiToken, rag, 'search', { method: 'POST', body: params, signal }),
+    aiSearch: aiSearch as AutoRAGClient['aiSearch']
+  };
+}
+
+// Yields the JSON payload of each `data:` line of an event stream, stopping at [DONE]
+async function* readSseData(body: ReadableStream<Uint8Array>, signal: AbortSignal): AsyncGenerator<any> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => reader.cancel().catch(() => {});
+  signal.addEventListener('abort', cancel);
+
+  try {
+    let buffer = '';
+    while (!signal.aborted) {
+      const { done, value } = await reader.read();
+      buffer += value ?? '';
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop()!;
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+        if (data !== '') {
+          yield JSON.parse(data);
+        }
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    signal.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Runs aiSearch in stream mode, handing each piece of the answer to onToken as it arrives,
+ * and assembles the response the non-streaming call would have returned. The sources come
+ * from the stream when AutoRAG includes them, otherwise from a search with the same parameters.
+ */
+async function streamAiSearch(
+  client: AutoRAGClient,
+  params: AutoRAGAiSearchParams,
+  onToken: (token: string) => Promise<void>,
+  signal: AbortSignal
+): Promise<AutoRAGAiSearchResponse> {
+  const streamed = await client.aiSearch({ ...params, stream: true });
+  if (!streamed.body) {
+    throw new Error('AutoRAG returned an empty answer stream');
+  }
+
+  let answer = '';
+  let sources: Partial<AutoRAGAiSearchResponse> & Pick<AutoRAGSearchResponse, 'data'> | undefined;
+  for await (const event of readSseData(streamed.body, signal)) {
+    if (typeof event.response === 'string' && event.response !== '') {
+      answer += event.response;
+      await onToken(event.response);
+    }
+    if (Array.isArray(event.data)) {
+      sources = event;
+    }
+  }
+  if (signal.aborted) {
+    throw new Error('AI search was cancelled');
+  }
+
+  if (!sources) {
+    const { cursor, ...searchParams } = params;
+    sources = await client.search(searchParams);
+  }
+
+  return {
+    object: sources.object ?? 'vector_store.search_results.page',
+    search_query: sources.search_query ?? params.query,
+    response: answer,
+    data: sources.data,
+    has_more: sources.has_more ?? false,
+    next_page: sources.next_page ?? null
+  };
+}
+
+// Starts re-indexing of the instance's source bucket; there is no binding method for this
+function startSync(accountId: string, apiToken: string, rag: string): Promise<{ job_id: string }> {
+  return autoragApiRequest<{ job_id: string }>(accountId, apiToken, rag, 'sync', { method: 'PATCH' });
+}
+
+const DEFAULT_ANALYTICS_DATASET = 'autorag_mcp_calls';
+
+/**
+ * Data point layout, read back by autorag_usage_report:
+ * blob1 tool, blob2 instances (comma-separated), blob3 error code, blob4 cache status, blob5 trace ID;
+ * double1 latency (ms), double2 result count, double3 top score, double4 1 for failed calls
+ */
+function writeToolCallDataPoint(dataset: AnalyticsEngineDataset, metrics: ToolCallMetrics): void {
+  dataset.writeDataPoint({
+    indexes: [metrics.tool],
+    blobs: [metrics.tool, metrics.instances.join(','), metrics.error_code ?? '', metrics.cache ?? '', metrics.trace_id ?? ''],
+    doubles: [metrics.latency_ms, metrics.result_count, metrics.top_score ?? 0, metrics.error_code ? 1 : 0]
+  });
+}
+
+// The SQL API answers FORMAT JSON queries with rows in data; 64-bit integers arrive as strings
+async function analyticsQuery<T>(accountId: string, apiToken: string, sql: string, signal?: AbortSignal): Promise<T[]> {
+  const response = await fetch(`${AUTORAG_API_BASE}/${accountId}/analytics_engine/sql`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiToken}` },
+    body: sql,
+    signal
+  });
+  if (!response.ok) {
+    throw new ToolError(
+      toolErrorCodeForStatus(response.status),
+      `Analytics Engine SQL API error (${response.status}): ${(await response.text()).trim() || response.statusText}`
+    );
+  }
+  const body = await response.json() as { data: T[] };
+  return body.data;
+}
+
+const UsageReportOutputSchema = z.object({
+  hours: z.number(),
+  since: z.string(),
+  total_calls: z.number(),
+  total_errors: z.number(),
+  tools: z.array(z.object({
+    tool: z.string(),
+    calls: z.number(),
+    errors: z.number(),
+    failure_rate: z.number(),
+    avg_latency_ms: z.number(),
+    avg_result_count: z.number(),
+    cache_hits: z.number()
+  })),
+  errors: z.array(z.object({
+    tool: z.string(),
+    code: z.string(),
+    count: z.number()
+  }))
+});
+
+const AutoRAGInstancesSchema = z.array(z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  bucket: z.string().optional()
+})).min(1);
+
+const ListInstancesOutputSchema = z.object({
+  default: z.string(),
+  instances: z.array(z.object({
+    name: z.string(),
+    description: z.string()
+  }))
+});
+
+// Keys are relative to the bucket root and may not escape it
+const DocumentPathSchema = z.string()
+  .min(1)
+  .max(1024)
+  .refine(path => !path.startsWith('/') && !path.split('/').includes('..'), {
+    message: 'Path must be relative to the bucket root and may not contain ".." segments'
+  })
+  .describe('Object key in the source bucket, e.g. "runbooks/db-failover.md"');
+
+const IngestDocumentOutputSchema = z.object({
+  rag: z.string(),
+  key: z.string(),
+  size: z.number(),
+  etag: z.string(),
+  uploaded: z.string(),
+  sync: z.object({
+    started: z.boolean(),
+    job_id: z.string().optional()
+  })
+});
+
+const CONTENT_TYPES = {
+  text: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  base64: 'application/octet-stream'
+};
+
+const FederatedSearchOutputSchema = z.object({
+  search_query: z.string(),
+  instances: z.array(z.string()),
+  data: z.array(SearchResultSchema.extend({
+    instance: z.string(),
+    normalized_score: z.number()
+  })),
+  errors: z.array(z.object({
+    instance: z.string(),
+    code: z.string(),
+    message: z.string(),
+    retryable: z.boolean()
+  })),
+  cache: CacheStatusSchema
+});
+
+const MultiSearchOutputSchema = z.object({
+  queries: z.array(z.string()),
+  data: z.array(SearchResultSchema.extend({
+    vector_score: z.number(),
+    matched_queries: z.array(z.string())
+  })),
+  errors: z.array(z.object({
+    query: z.string(),
+    code: z.string(),
+    message: z.string(),
+    retryable: z.boolean()
+  })),
+  cache: CacheStatusSchema
+});
+
+/**
+ * Merges per-instance search results into one ranked list.
+ * Scores are normalized against the best score across all instances, so a weak corpus
+ * cannot lift its hits above strong ones elsewhere; results for the same file
+ * (by file_id or filename) are collapsed into the best-scoring hit.
+ */
+function mergeFederatedResults<T extends AutoRAGSearchResult>(
+  responses: Array<{ instance: string; data: T[] }>,
+  limit: number
+): Array<T & FederatedSearchResult> {
+  const best = Math.max(0, ...responses.flatMap(({ data }) => data.map(result => result.score)));
+  const hits: Array<T & FederatedSearchResult> = responses.flatMap(({ instance, data }) => data.map(result => ({
+    ...result,
+    instance,
+    normalized_score: best > 0 ? result.score / best : 0
+  })));
+
+  hits.sort((a, b) => b.score - a.score);
+
+  const seen = new Set<string>();
+  const merged: Array<T & FederatedSearchResult> = [];
+  for (const hit of hits) {
+    const keys = [`id:${hit.file_id}`, hit.filename && `name:${hit.filename}`].filter(Boolean) as string[];
+    if (keys.some(key => seen.has(key))) {
+      continue;
+    }
+    keys.forEach(key => seen.add(key));
+    merged.push(hit);
+    if (merged.length === limit) {
+      break;
+    }
+  }
+  return merged;
+}
+
+interface HybridOptions {
+  fusion: 'weighted' | 'rrf';
+  // Share of the keyword score in weighted fusion
+  lexical_weight: number;
+}
+
+interface HybridSearchResult {
+  vector_score: number;
+  lexical_score: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Usual reciprocal rank fusion constant; larger values flatten the gap between top ranks
+const RRF_K = 60;
+
+// Common words left out of term matching, both for BM25 and for tying answer sentences to citations
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'has', 'have', 'was', 'were',
+  'this', 'that', 'these', 'those', 'with', 'from', 'into', 'than', 'then', 'they', 'them', 'their', 'there',
+  'which', 'what', 'when', 'where', 'who', 'will', 'would', 'should', 'could', 'been', 'being', 'also', 'such', 'its'
+]);
+
+// Identifiers such as ERR-4012 are kept whole as well as split, so an exact match beats a partial one
+function lexicalTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) ?? []) {
+    const parts = token.split(/[-_.]/);
+    terms.push(...(parts.length > 1 ? [token, ...parts] : parts));
+  }
+  return terms.filter(term => !STOPWORDS.has(term));
+}
+
+/**
+ * Re-ranks search hits by combining their vector score with a BM25 score of the query
+ * over their chunk content. Document frequencies are taken from the hits themselves, and
+ * the BM25 score is normalized against the best hit, so the lexical score only says how
+ * well a hit matches the query compared to the other candidates.
+ */
+function hybridRerank<T extends AutoRAGSearchResult>(
+  query: string,
+  hits: T[],
+  options: HybridOptions
+): Array<T & HybridSearchResult> {
+  const queryTerms = Array.from(new Set(lexicalTerms(query)));
+  const documents = hits.map(hit => {
+    const terms = lexicalTerms(hit.content.map(chunk => chunk.text).join('\n'));
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return { length: terms.length, counts };
+  });
+  const averageLength = documents.reduce((total, document) => total + document.length, 0) / Math.max(documents.length, 1);
+
+  const bm25 = documents.map(({ length, counts }) => queryTerms.reduce((score, term) => {
+    const frequency = counts.get(term) ?? 0;
+    if (frequency === 0) {
+      return score;
+    }
+    const containing = documents.filter(document => document.counts.has(term)).length;
+    const idf = Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+    return score + idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / (averageLength || 1)));
+  }, 0));
+  const best = Math.max(0, ...bm25);
+  // Without a single keyword match there is nothing to fuse, so the vector ranking stands
+  if (best === 0) {
+    return hits.map(hit => ({ ...hit, vector_score: hit.score, lexical_score: 0 }));
+  }
+
+  const scored = hits.map((hit, index) => ({
+    ...hit,
+    vector_score: hit.score,
+    lexical_score: bm25[index] / best
+  }));
+
+  // Hits without any query term get no lexical rank, and so no lexical share of the fused score
+  const vectorRanks = new Map([...scored].sort((a, b) => b.vector_score - a.vector_score).map((hit, rank) => [hit, rank + 1]));
+  const lexicalRanks = new Map(scored
+    .filter(hit => hit.lexical_score > 0)
+    .sort((a, b) => b.lexical_score - a.lexical_score)
+    .map((hit, rank) => [hit, rank + 1]));
+
+  return scored
+    .map(hit => ({
+      ...hit,
+      score: options.fusion === 'rrf'
+        ? 1 / (RRF_K + vectorRanks.get(hit)!) + (lexicalRanks.has(hit) ? 1 / (RRF_K + lexicalRanks.get(hit)!) : 0)
+        : (1 - options.lexical_weight) * hit.vector_score + options.lexical_weight * hit.lexical_score
+    }))
+    .sort((a, b) => b.score - a.score || b.vector_score - a.vector_score);
+}
+
+const DEFAULT_PARAPHRASE_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+const MAX_MULTI_SEARCH_QUERIES = 10;
+
+/**
+ * Asks a Workers AI text generation model for alternative phrasings of a query.
+ * Models number or bullet their lines despite being told not to, so markers are stripped;
+ * the result may hold fewer phrasings than requested, never the query itself.
+ */
+async function generateParaphrases(ai: Env['AI'], model: string, query: string, count: number): Promise<string[]> {
+  const output = await ai.run(model, {
+    messages: [
+      {
+        role: 'system',
+        content: `Rewrite the user's search query in ${count} different ways that could match other wording in the documents. Keep identifiers, codes and names unchanged. Reply with one query per line and nothing else.`
+      },
+      { role: 'user', content: query }
+    ]
+  });
+  if (typeof output?.response !== 'string') {
+    throw new Error(`Text generation model ${model} returned no response`);
+  }
+
+  const seen = new Set([query.trim().toLowerCase()]);
+  const paraphrases: string[] = [];
+  for (const line of output.response.split('\n')) {
+    const paraphrase = line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').replace(/^["']|["']$/g, '').trim();
+    if (paraphrase && !seen.has(paraphrase.toLowerCase())) {
+      seen.add(paraphrase.toLowerCase());
+      paraphrases.push(paraphrase);
+    }
+  }
+  return paraphrases.slice(0, count);
+}
+
+interface MultiSearchResult {
+  // Best vector score of the file across the queries
+  vector_score: number;
+  matched_queries: string[];
+}
+
+/**
+ * Merges the rankings of several queries against one instance with reciprocal rank fusion.
+ * Hits for the same file_id are combined, and a chunk whose text already appeared in a
+ * better-ranked file is dropped; files left without chunks are dropped with it.
+ */
+function fuseMultiSearchResults<T extends AutoRAGSearchResult>(
+  rankings: Array<{ query: string; data: T[] }>,
+  limit: number
+): Array<T & MultiSearchResult> {
+  const files = new Map<string, { hit: T; score: number; vector_score: number; matched_queries: string[]; chunks: T['content'] }>();
+  for (const { query, data } of rankings) {
+    data.forEach((hit, index) => {
+      const file = files.get(hit.file_id);
+      if (!file) {
+        files.set(hit.file_id, { hit, score: 1 / (RRF_K + index + 1), vector_score: hit.score, matched_queries: [query], chunks: [...hit.content] });
+        return;
+      }
+      file.score += 1 / (RRF_K + index + 1);
+      file.vector_score = Math.max(file.vector_score, hit.score);
+      file.matched_queries.push(query);
+      file.chunks.push(...hit.content);
+    });
+  }
+
+  const seen = new Set<string>();
+  const merged: Array<T & MultiSearchResult> = [];
+  for (const file of Array.from(files.values()).sort((a, b) => b.score - a.score || b.vector_score - a.vector_score)) {
+    const content = file.chunks.filter(chunk => {
+      const text = chunk.text.replace(/\s+/g, ' ').trim().toLowerCase();
+      if (seen.has(text)) {
+        return false;
+      }
+      seen.add(text);
+      return true;
+    });
+    if (content.length === 0) {
+      continue;
+    }
+    merged.push({ ...file.hit, content, score: file.score, vector_score: file.vector_score, matched_queries: file.matched_queries });
+    if (merged.length === limit) {
+      break;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resolves the allowlist of AutoRAG instances the tools may query.
+ * Falls back to the single AUTORAG_NAME instance when AUTORAG_INSTANCES is not configured.
+ */
+function resolveInstances(env: Env): AutoRAGInstance[] {
+  if (!env.AUTORAG_INSTANCES) {
+    return [{ name: env.AUTORAG_NAME, description: 'Default AutoRAG instance' }];
+  }
+
+  const parsed = AutoRAGInstancesSchema.safeParse(env.AUTORAG_INSTANCES);
+  if (!parsed.success) {
+    throw new Error(`Invalid AUTORAG_INSTANCES configuration: ${formatZodIssues(parsed.error.issues)}`);
+  }
+  return parsed.data;
+}
+
+const PromptTemplatesSchema = z.array(z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  arguments: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    required: z.boolean().default(true)
+  })).default([]),
+  // {{argument}} and {{argument|fallback}} placeholders are filled from the prompt arguments
+  queries: z.array(z.string()).min(1),
+  instructions: z.string(),
+  rewrite_query: z.boolean().default(true),
+  max_num_results: z.number().int().min(1).max(50).default(5)
+}));
+
+type PromptTemplate = z.infer<typeof PromptTemplatesSchema>[number];
+
+const BUILT_IN_PROMPT_TEMPLATES: z.input<typeof PromptTemplatesSchema> = [
+  {
+    name: 'answer_with_citations',
+    description: 'Answer a question from the knowledge base, citing the retrieved passages',
+    arguments: [
+      { name: 'question', description: 'The question to answer' }
+    ],
+    queries: ['{{question}}'],
+    instructions: 'Answer the question below using only the numbered passages retrieved from the knowledge base. ' +
+      'Cite every statement with the number of the passage it comes from, e.g. [1] or [2][3]. ' +
+      'If the passages do not contain the answer, say so instead of guessing.\n\nQuestion: {{question}}'
+  },
+  {
+    name: 'summarize_topic',
+    description: 'Summarize what the knowledge base says about a topic',
+    arguments: [
+      { name: 'topic', description: 'The topic to summarize' },
+      { name: 'audience', description: 'Who the summary is for (default: a general audience)', required: false }
+    ],
+    queries: ['{{topic}}'],
+    instructions: 'Summarize what the numbered passages retrieved from the knowledge base say about "{{topic}}" ' +
+      'for {{audience|a general audience}}. Group related points, cite passages as [n], ' +
+      'and point out contradictions or gaps in the material.',
+    max_num_results: 10
+  },
+  {
+    name: 'compare_policies',
+    description: 'Compare two policies (or documents, products, procedures) as described in the knowledge base',
+    arguments: [
+      { name: 'policy_a', description: 'The first policy to compare' },
+      { name: 'policy_b', description: 'The second policy to compare' },
+      { name: 'aspect', description: 'Aspect to focus the comparison on (default: all aspects)', required: false }
+    ],
+    queries: ['{{policy_a}} {{aspect}}', '{{policy_b}} {{aspect}}'],
+    instructions: 'Compare "{{policy_a}}" with "{{policy_b}}", focusing on {{aspect|all aspects}}, ' +
+      'using only the numbered passages retrieved from the knowledge base. ' +
+      'Present the similarities and differences side by side, cite passages as [n], ' +
+      'and note where the passages do not cover one of the two.'
+  }
+];
+
+function resolvePromptTemplates(env: Env): PromptTemplate[] {
+  const parsed = PromptTemplatesSchema.safeParse([...BUILT_IN_PROMPT_TEMPLATES, ...(env.PROMPT_TEMPLATES ?? [])]);
+  if (!parsed.success) {
+    throw new Error(`Invalid PROMPT_TEMPLATES configuration: ${formatZodIssues(parsed.error.issues)}`);
+  }
+
+  // Later entries (from configuration) replace built-ins with the same name
+  return Array.from(new Map(parsed.data.map(template => [template.name, template])).values());
+}
+
+function fillTemplate(template: string, args: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g, (_, name: string, fallback?: string) => args[name] || fallback || '')
+    .trim();
+}
+
+// Numbers passages consecutively so that prompts can ask for [n] citations
+function formatPassages(results: AutoRAGSearchResult[], start: number = 1): string {
+  return results.map((result, index) => {
+    const text = (result.content ?? []).map(chunk => chunk.text).join('\n');
+    return `[${start + index}] ${result.filename} (score: ${result.score.toFixed(2)})\n${text}`;
+  }).join('\n\n');
+}
+
+type OutputFormat = 'json' | 'markdown' | 'plain';
+
+const OutputFormatSchema = z.enum(['json', 'markdown', 'plain'])
+  .default('json')
+  .describe('Output format: json (raw results), markdown (numbered passages with a reference list) or plain text (default: json)');
+
+function citationTerms(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}_-]+/gu) ?? []).filter(term => term.length > 2 && !STOPWORDS.has(term))
+  );
+}
+
+/**
+ * Appends [n] markers to each sentence of a generated answer, pointing at the passages
+ * that share most of its terms. The binding returns no attribution of its own, so this
+ * is a lexical approximation: sentences without a clear source stay unmarked.
+ */
+function citeAnswer(answer: string, passages: AutoRAGSearchResult[]): string {
+  const passageTerms = passages.map(passage => citationTerms((passage.content ?? []).map(chunk => chunk.text).join(' ')));
+
+  return answer.replace(/[^\n]+?(?:[.!?]+(?=\s|$)|$)/gm, sentence => {
+    const body = sentence.replace(/[.!?]+$/, '');
+    const terms = citationTerms(body);
+    if (terms.size < 3) {
+      return sentence;
+    }
+
+    const cited = passageTerms
+      .map((candidate, index) => ({
+        number: index + 1,
+        overlap: Array.from(terms).filter(term => candidate.has(term)).length / terms.size
+      }))
+      .filter(({ overlap }) => overlap >= 0.5)
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, 2);
+    if (cited.length === 0) {
+      return sentence;
+    }
+
+    return `${body.trimEnd()} ${cited.map(({ number }) => `[${number}]`).join('')}${sentence.slice(body.length)}`;
+  });
+}
+
+function formatAttributes(attributes?: Record<string, any>): string {
+  return Object.entries(attributes ?? {})
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join(', ');
+}
+
+/**
+ * Renders search results as numbered passages followed by a reference list, with
+ * [n] citation markers in the AI-generated answer when there is one
+ */
+function renderSearchResults(
+  format: Exclude<OutputFormat, 'json'>,
+  result: {
+    search_query: string;
+    data: Array<AutoRAGSearchResult & Partial<HybridSearchResult> & { resource_uri?: string }>;
+    response?: string;
+    nextCursor?: string;
+  }
+): string {
+  const markdown = format === 'markdown';
+  const lines: string[] = [];
+  const heading = (text: string) => markdown
+    ? lines.push(`## ${text}`, '')
+    : lines.push(text, '='.repeat(text.length), '');
+
+  if (result.response !== undefined) {
+    heading('Answer');
+    lines.push(citeAnswer(result.response, result.data), '');
+  }
+
+  heading(`Passages for "${result.search_query}"`);
+  if (result.data.length === 0) {
+    lines.push('No passages matched the query.', '');
+  }
+  result.data.forEach((passage, index) => {
+    const number = index + 1;
+    const attributes = formatAttributes(passage.attributes);
+    const score = passage.vector_score !== undefined && passage.lexical_score !== undefined
+      ? `${passage.score.toFixed(3)} (vector ${passage.vector_score.toFixed(3)}, keyword ${passage.lexical_score.toFixed(3)})`
+      : passage.score.toFixed(3);
+    lines.push(markdown
+      ? `### [${number}] ${passage.filename}`
+      : `[${number}] ${passage.filename}`);
+    lines.push(markdown
+      ? `*Score: ${score}${attributes ? ` · ${attributes}` : ''}*`
+      : `Score: ${score}${attributes ? ` | ${attributes}` : ''}`);
+    lines.push('');
+    for (const chunk of passage.content ?? []) {
+      lines.push(markdown ? chunk.text.split('\n').map(line => `> ${line}`).join('\n') : chunk.text, '');
+    }
+  });
+
+  if (result.data.length > 0) {
+    heading('References');
+    result.data.forEach((passage, index) => {
+      const location = passage.resource_uri ? ` (${passage.resource_uri})` : '';
+      lines.push(`${markdown ? '- ' : ''}[${index + 1}] ${passage.filename}${location}`);
+    });
+    lines.push('');
+  }
+
+  if (result.nextCursor) {
+    lines.push(`More results are available with cursor: ${result.nextCursor}`);
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+interface IndexedDocument {
+  instance: string;
+  file_id: string;
+  filename: string;
+  // Chunk texts seen in search results, keyed by chunk id
+  chunks: Record<string, string>;
+}
+
+function documentUri(instance: string, fileId: string): string {
+  return `autorag://${encodeURIComponent(instance)}/file/${encodeURIComponent(fileId)}`;
+}
+
+function resourceLinks(results: Array<AutoRAGSearchResult & { resource_uri: string }>): ResourceLinkContent[] {
+  return results.map(result => ({
+    type: 'resource_link',
+    uri: result.resource_uri,
+    name: result.filename
+  }));
+}
+
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith('text/') || /json|xml|yaml|markdown|javascript/.test(contentType);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Remembers the documents that search results referred to, so they can be read back as
+ * autorag://<instance>/file/<file_id> resources. The AutoRAG binding cannot look a file
+ * up by id, so only files returned by a search in the current session are readable.
+ */
+class DocumentIndex {
+  private storage: DurableObjectStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+  }
+
+  // Records the results and tags each with the URI of its document resource
+  async link<T extends AutoRAGSearchResult>(instance: string, results: T[]): Promise<Array<T & { resource_uri: string }>> {
+    if (results.length > 0) {
+      const keys = results.map(result => this.key(instance, result.file_id));
+      const existing = await this.storage.get<IndexedDocument>(keys);
+      const updated: Record<string, IndexedDocument> = {};
+
+      results.forEach((result, index) => {
+        const key = keys[index];
+        const document = updated[key] ?? existing.get(key) ?? {
+          instance,
+          file_id: result.file_id,
+          filename: result.filename,
+          chunks: {}
+        };
+        for (const chunk of result.content ?? []) {
+          document.chunks[chunk.id] = chunk.text;
+        }
+        updated[key] = document;
+      });
+
+      await this.storage.put(updated);
+    }
+
+    return results.map(result => ({ ...result, resource_uri: documentUri(instance, result.file_id) }));
+  }
+
+  get(instance: string, fileId: string): Promise<IndexedDocument | undefined> {
+    return this.storage.get<IndexedDocument>(this.key(instance, fileId));
+  }
+
+  async list(): Promise<IndexedDocument[]> {
+    const documents = await this.storage.list<IndexedDocument>({ prefix: 'document:' });
+    return Array.from(documents.values());
+  }
+
+  private key(instance: string, fileId: string): string {
+    return `document:${instance}:${fileId}`;
+  }
+}
+
+type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+// Tools whose upstream responses are cached, with their default TTL in seconds
+const CACHED_TOOLS = ['autorag_basic_search', 'autorag_rewrite_search', 'autorag_ai_search', 'autorag_federated_search', 'autorag_multi_search'];
+const DEFAULT_CACHE_TTL = 300;
+
+// KV does not accept expirations below 60 seconds; 0 turns caching off for a tool
+const CacheTtlsSchema = z.record(z.enum(CACHED_TOOLS as [string, ...string[]]), z.number().int()
+  .refine(ttl => ttl === 0 || ttl >= 60, 'TTL must be 0 or at least 60 seconds'));
+
+function resolveCacheTtls(env: Env): Record<string, number> {
+  const parsed = CacheTtlsSchema.safeParse(env.CACHE_TTLS ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid CACHE_TTLS configuration: ${formatZodIssues(parsed.error.issues)}`);
+  }
+  return { ...Object.fromEntries(CACHED_TOOLS.map(tool => [tool, DEFAULT_CACHE_TTL])), ...parsed.data };
+}
+
+// Sorts object keys and collapses whitespace in the query, so equivalent calls share an entry
+function normalizeCacheParams(value: unknown, key?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeCacheParams(item));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value)
+      .sort()
+      .filter(name => (value as Record<string, unknown>)[name] !== undefined)
+      .map(name => [name, normalizeCacheParams((value as Record<string, unknown>)[name], name)]));
+  }
+  return key === 'query' && typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value;
+}
+
+// A sync indexes new documents in the background; for this long after starting one, entries
+// are written with the short TTL below so that searches made before it finishes soon expire
+const SYNC_PENDING_TTL = 600;
+const SYNC_PENDING_CACHE_TTL = 60;
+
+/**
+ * Caches AutoRAG responses in the CACHE_KV namespace, keyed on tool, instance and the
+ * normalized request parameters. Each instance has a generation that is part of the key;
+ * invalidate() moves it on, which orphans every entry of the instance until it expires.
+ */
+class SearchCache {
+  private kv?: KVNamespace;
+  private ttls: Record<string, number>;
+
+  constructor(kv: KVNamespace | undefined, ttls: Record<string, number>) {
+    this.kv = kv;
+    this.ttls = ttls;
+  }
+
+  // Returns the cached response or loads and stores it; status is undefined when caching is off for the tool
+  async fetch<T>(
+    tool: string,
+    instance: string,
+    params: object,
+    bypass: boolean,
+    load: () => Promise<T>
+  ): Promise<{ value: T; status?: CacheStatus }> {
+    const ttl = this.ttls[tool] ?? 0;
+    if (!this.kv || ttl === 0) {
+      return { value: await load() };
+    }
+
+    const [generation, syncing] = await Promise.all([
+      this.kv.get(`generation:${instance}`),
+      this.kv.get(`syncing:${instance}`)
+    ]);
+    const digest = await sha256Hex(JSON.stringify(normalizeCacheParams(params)));
+    const key = `search:${instance}:${generation ?? '0'}:${tool}:${digest}`;
+
+    if (!bypass) {
+      const cached = await this.kv.get<T>(key, 'json');
+      if (cached !== null) {
+        return { value: cached, status: 'hit' };
+      }
+    }
+
+    // A bypassed call still refreshes the entry
+    const value = await load();
+    await this.kv.put(key, JSON.stringify(value), { expirationTtl: syncing ? Math.min(ttl, SYNC_PENDING_CACHE_TTL) : ttl });
+    return { value, status: bypass ? 'bypass' : 'miss' };
+  }
+
+  // syncing marks the instance as indexing, which shortens the TTL of entries written meanwhile
+  async invalidate(instance: string, syncing = false): Promise<void> {
+    await this.kv?.put(`generation:${instance}`, String(Date.now()));
+    if (syncing) {
+      await this.kv?.put(`syncing:${instance}`, '1', { expirationTtl: SYNC_PENDING_TTL });
+    }
+  }
+}
+
+// The search binding returns at most this many results, which bounds how far the Worker can page
+const MAX_SEARCH_RESULTS = 50;
+const DEFAULT_PAGE_SIZE = 10;
+
+interface SearchCursorState {
+  tool: string;
+  rag: string;
+  query: string;
+  score_threshold: number;
+  rewrite_query: boolean;
+  // The query as rewritten for the first page; later pages search it without rewriting again
+  search_query?: string;
+  filters?: AutoRAGFilter;
+  hybrid?: HybridOptions;
+  page_size: number;
+  offset: number;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, character => character.charCodeAt(0));
+}
+
+/**
+ * Issues and verifies the opaque cursors autorag_basic_search and autorag_rewrite_search
+ * page with. The search binding has no cursor of its own, so a cursor records the query,
+ * its parameters and the offset, signed with HMAC-SHA256 so clients cannot alter them.
+ * The key is CURSOR_SECRET, or a random key kept in session storage when it is not set.
+ */
+class SearchCursors {
+  private secret?: string;
+  private storage: DurableObjectStorage;
+  private key?: Promise<CryptoKey>;
+
+  constructor(secret: string | undefined, storage: DurableObjectStorage) {
+    this.secret = secret;
+    this.storage = storage;
+  }
+
+  async issue(state: SearchCursorState): Promise<string> {
+    const payload = encoder.encode(JSON.stringify(state));
+    const signature = await crypto.subtle.sign('HMAC', await this.signingKey(), payload);
+    return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  // Returns the recorded state, or throws an Invalid params error for a forged or foreign cursor
+  async open(cursor: string, tool: string): Promise<SearchCursorState> {
+    const invalid = (reason: string) => new ToolError('invalid_input', `Invalid cursor: ${reason}`);
+    const [payload, signature] = cursor.split('.');
+    let payloadBytes: Uint8Array;
+    let signatureBytes: Uint8Array;
+    try {
+      payloadBytes = fromBase64Url(payload);
+      signatureBytes = fromBase64Url(signature ?? '');
+    } catch {
+      throw invalid('malformed cursor');
+    }
+
+    const valid = await crypto.subtle.verify('HMAC', await this.signingKey(), signatureBytes, payloadBytes);
+    if (!valid) {
+      throw invalid('signature does not match');
+    }
+
+    const state = JSON.parse(new TextDecoder().decode(payloadBytes)) as SearchCursorState;
+    if (state.tool !== tool) {
+      throw invalid(`issued by ${state.tool}`);
+    }
+    return state;
+  }
+
+  private signingKey(): Promise<CryptoKey> {
+    this.key ??= (async () => {
+      let secret = this.secret;
+      if (!secret) {
+        secret = await this.storage.get<string>('cursor-secret');
+        if (!secret) {
+          secret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+          await this.storage.put('cursor-secret', secret);
+        }
+      }
+      return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    })();
+    return this.key;
+  }
+}
+
+function createServer(env: Env, storage: DurableObjectStorage): WorkersMcpServer {
+  const server = new WorkersMcpServer({
+    name: 'cloudflare-autorag-mcp',
+    version: '1.2.0',
+  }, { 
+    capabilities: { 
+      tools: {},
+      resources: {},
+      prompts: {},
+      logging: {}
+    },
+    onToolCall: metrics => env.ANALYTICS && writeToolCallDataPoint(env.ANALYTICS, metrics)
+  });
+
+  const documents = new DocumentIndex(storage);
+  const cursors = new SearchCursors(env.CURSOR_SECRET, storage);
+  const cache = new SearchCache(env.CACHE_KV, resolveCacheTtls(env));
+
+  const instances = resolveInstances(env);
+  const instanceNames = instances.map(instance => instance.name) as [string, ...string[]];
+  // AUTORAG_NAME stays the default when it is part of the allowlist
+  const defaultInstance = instanceNames.includes(env.AUTORAG_NAME) ? env.AUTORAG_NAME : instanceNames[0];
+  // Source documents of an instance live in its own bucket binding, or AUTORAG_BUCKET
+  const sourceBucket = (rag: string): { bindingName: string; bucket?: R2Bucket } => {
+    const instance = instances.find(candidate => candidate.name === rag);
+    const bindingName = instance?.bucket ?? 'AUTORAG_BUCKET';
+    return { bindingName, bucket: (env as unknown as Record<string, R2Bucket | undefined>)[bindingName] };
+  };
+
+  // Unfiltered searches use the binding; filtered ones need the REST API credentials
+  const autoragClient = (rag: string, filters: AutoRAGFilter | undefined, signal: AbortSignal): AutoRAGClient => {
+    if (!env.AI) {
+      throw new ToolError('misconfigured_binding', 'The AI binding is not configured');
+    }
+    if (!filters) {
+      return env.AI.autorag(rag);
+    }
+    if (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_API_TOKEN) {
+      throw new ToolError(
+        'misconfigured_binding',
+        'Metadata filtering requires the CLOUDFLARE_ACCOUNT_ID variable and the CLOUDFLARE_API_TOKEN secret to be configured. See: https://developers.cloudflare.com/autorag/usage/rest-api/'
+      );
+    }
+    return createRestClient(env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN, rag, signal);
+  };
+
+  // A cursor replays the search it was issued for; its threshold and page size take precedence over the arguments
+  const searchState = async (
+    tool: string,
+    cursor: string | undefined,
+    args: Omit<SearchCursorState, 'tool' | 'page_size' | 'offset'> & { max_num_results?: number }
+  ): Promise<SearchCursorState> => {
+    if (cursor === undefined) {
+      const { max_num_results, ...search } = args;
+      return { tool, ...search, page_size: max_num_results ?? DEFAULT_PAGE_SIZE, offset: 0 };
+    }
+    const state = await cursors.open(cursor, tool);
+    if (state.query !== args.query) {
+      throw new ToolError('invalid_input', 'Invalid cursor: issued for a different query');
+    }
+    // Key scopes are checked against the arguments, so a cursor must not switch instance or search settings
+    const differing = (['rag', 'filters', 'rewrite_query', 'hybrid'] as const)
+      .filter(field => JSON.stringify(state[field] ?? null) !== JSON.stringify(args[field] ?? null));
+    if (differing.length > 0) {
+      throw new ToolError('invalid_input', `Invalid cursor: issued with different ${differing.join(', ')}`);
+    }
+    return state;
+  };
+
+  // Search steps are logged at debug level, so clients see them after logging/setLevel
+  const logSearchRequest = (extra: RequestHandlerExtra, tool: string, instance: string, params: AutoRAGSearchParams | AutoRAGAiSearchParams) =>
+    extra.log('debug', tool, {
+      step: 'request',
+      instance,
+      query: params.query,
+      rewrite_query: params.rewrite_query ?? false,
+      score_threshold: params.ranking_options?.score_threshold,
+      max_num_results: params.max_num_results,
+      filters: params.filters
+    });
+
+  const logSearchResults = async (
+    extra: RequestHandlerExtra,
+    tool: string,
+    instance: string,
+    params: AutoRAGSearchParams | AutoRAGAiSearchParams,
+    response: AutoRAGSearchResponse,
+    cache?: CacheStatus
+  ) => {
+    if (params.rewrite_query) {
+      await extra.log('debug', tool, { step: 'rewrite', instance, query: params.query, rewritten_query: response.search_query });
+    }
+    await extra.log('debug', tool, {
+      step: 'results',
+      instance,
+      score_threshold: params.ranking_options?.score_threshold,
+      result_count: response.data.length,
+      top_score: response.data[0]?.score ?? null,
+      cache
+    });
+  };
+
+  // Over-fetches one result past the page so has_more is known without a second request.
+  // Hybrid mode fetches every candidate, since re-ranking may lift any of them onto the page.
+  const searchPage = async (client: AutoRAGClient, state: SearchCursorState, bypassCache: boolean, extra: RequestHandlerExtra) => {
+    const end = state.offset + state.page_size;
+    // The model may rewrite a query differently each time, so pages past the first reuse the first rewrite
+    const searchParams: AutoRAGSearchParams = {
+      query: state.search_query ?? state.query,
+      rewrite_query: state.rewrite_query && state.search_query === undefined,
+      max_num_results: state.hybrid ? MAX_SEARCH_RESULTS : Math.min(end + 1, MAX_SEARCH_RESULTS),
+      ranking_options: {
+        score_threshold: state.score_threshold
+      }
+    };
+    if (state.filters !== undefined) {
+      searchParams.filters = state.filters;
+    }
+
+    await logSearchRequest(extra, state.tool, state.rag, searchParams);
+    const { value: response, status } = await cache.fetch(state.tool, state.rag, searchParams, bypassCache, () => client.search(searchParams));
+    await logSearchResults(extra, state.tool, state.rag, searchParams, response, status);
+    // The original query is used, as it holds the exact terms the user is looking for
+    const ranked = state.hybrid ? hybridRerank(state.query, response.data, state.hybrid) : response.data;
+    if (state.hybrid) {
+      await extra.log('debug', state.tool, { step: 'rerank', instance: state.rag, ...state.hybrid, candidates: ranked.length });
+    }
+    const hasMore = ranked.length > end;
+    const nextCursor = hasMore
+      ? await cursors.issue({ ...state, offset: end, search_query: state.rewrite_query ? state.search_query ?? response.search_query : undefined })
+      : undefined;
+
+    return {
+      ...response,
+      data: await documents.link(state.rag, ranked.slice(state.offset, end)),
+      has_more: hasMore,
+      next_page: nextCursor ?? null,
+      nextCursor,
+      cache: status
+    };
+  };
+
+  // Instances an API key may use; every instance when authentication is off or the key is unrestricted
+  const allowedInstances = (scope?: KeyScope) => instanceNames.filter(name => !scope?.instances || scope.instances.includes(name));
+  // Without rags a federated search covers every instance the key may use
+  const federatedInstances = (rags: string[] | undefined, scope?: KeyScope) => Array.from(new Set(rags ?? allowedInstances(scope)));
+  // Scope check for tools and prompts that take a single rag argument
+  const usesRag = ({ rag }: { rag?: string }) => [rag ?? defaultInstance];
+
+  const ragArgument = z.enum(instanceNames)
+    .default(defaultInstance)
+    .describe(`AutoRAG instance to query (see autorag_list_instances, default: ${defaultInstance})`);
+
+  server.addTool(
+    'autorag_list_instances',
+    'List the AutoRAG instances (knowledge bases) this server can search, with a description of what each contains',
+    z.object({}),
+    async (_params, extra) => {
+      const allowed = allowedInstances(extra.scope);
+      const result = {
+        default: defaultInstance,
+        instances: instances
+          .filter(({ name }) => allowed.includes(name))
+          .map(({ name, description }) => ({ name, description }))
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ],
+        structuredContent: result
+      };
+    },
+    {
+      annotations: { title: 'List AutoRAG Instances', readOnlyHint: true, openWorldHint: false },
+      outputSchema: ListInstancesOutputSchema
+    }
+  );
+
+  // Basic search tool
+  server.addTool(
+    'autorag_basic_search',
+    'Basic search for documents in Cloudflare AutoRAG without query rewriting or answer generation',
+    z.object({
+      query: z.string().describe('The search query to find relevant documents'),
+      score_threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
+      max_num_results: z.number().int().min(1).max(50).optional().describe('Maximum number of results per page (default: 10)'),
+      cursor: z.string().optional().describe('Pagination cursor from previous response to fetch next page of results'),
+      rag: ragArgument,
+      filters: FiltersSchema.optional(),
+      hybrid: z.boolean().default(false).describe('Re-rank results by combining vector scores with BM25 keyword scores over the chunk content (default: false)'),
+      fusion: z.enum(['weighted', 'rrf']).default('weighted').describe('How hybrid mode combines the scores: weighted sum or reciprocal rank fusion (default: weighted)'),
+      lexical_weight: z.number().min(0).max(1).default(0.3).describe('Weight of the keyword score in weighted fusion (0.0 to 1.0, default: 0.3)'),
+      bypass_cache: z.boolean().default(false).describe('Skip the result cache and query AutoRAG directly (default: false)'),
+      format: OutputFormatSchema
+    }),
+    async ({ query, score_threshold, max_num_results, cursor, rag, filters, hybrid, fusion, lexical_weight, bypass_cache, format }, extra) => {
+      const state = await searchState('autorag_basic_search', cursor, {
+        query,
+        rag,
+        score_threshold,
+        rewrite_query: false, // Basic search never rewrites query
+        filters,
+        hybrid: hybrid ? { fusion, lexical_weight } : undefined,
+        max_num_results
+      });
+      const client = autoragClient(state.rag, state.filters, extra.signal);
+
+      try {
+        const result = await searchPage(client, state, bypass_cache, extra);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json' ? JSON.stringify(result, null, 2) : renderSearchResults(format, result)
+            },
+            ...resourceLinks(result.data)
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error searching AutoRAG');
+      }
+    },
+    {
+      annotations: { title: 'AutoRAG Basic Search', readOnlyHint: true, openWorldHint: false },
+      outputSchema: PagedSearchOutputSchema,
+      instances: usesRag
+    }
+  );
+
+  // Search with query rewriting but NO AI generation
+  server.addTool(
+    'autorag_rewrite_search',
+    'Search for documents in Cloudflare AutoRAG with AI query rewriting but NO answer generation (returns document chunks only)',
+    z.object({
+      query: z.string().describe('The search query to find relevant documents with AI query rewriting'),
+      score_threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
+      max_num_results: z.number().int().min(1).max(50).optional().describe('Maximum number of results per page (default: 10)'),
+      rewrite_query: z.boolean().default(true).describe('Whether to rewrite the query using AI (default: true)'),
+      cursor: z.string().optional().describe('Pagination cursor from previous response to fetch next page of results'),
+      rag: ragArgument,
+      filters: FiltersSchema.optional(),
+      hybrid: z.boolean().default(false).describe('Re-rank results by combining vector scores with BM25 keyword scores over the chunk content (default: false)'),
+      fusion: z.enum(['weighted', 'rrf']).default('weighted').describe('How hybrid mode combines the scores: weighted sum or reciprocal rank fusion (default: weighted)'),
+      lexical_weight: z.number().min(0).max(1).default(0.3).describe('Weight of the keyword score in weighted fusion (0.0 to 1.0, default: 0.3)'),
+      bypass_cache: z.boolean().default(false).describe('Skip the result cache and query AutoRAG directly (default: false)'),
+      format: OutputFormatSchema
+    }),
+    async ({ query, score_threshold, max_num_results, rewrite_query, cursor, rag, filters, hybrid, fusion, lexical_weight, bypass_cache, format }, extra) => {
+      const state = await searchState('autorag_rewrite_search', cursor, {
+        query,
+        rag,
+        score_threshold,
+        rewrite_query,
+        filters,
+        hybrid: hybrid ? { fusion, lexical_weight } : undefined,
+        max_num_results
+      });
+      const client = autoragClient(state.rag, state.filters, extra.signal);
+
+      try {
+        // Use search method instead of aiSearch to avoid AI generation
+        const result = await searchPage(client, state, bypass_cache, extra);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json' ? JSON.stringify(result, null, 2) : renderSearchResults(format, result)
+            },
+            ...resourceLinks(result.data)
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error in AutoRAG rewrite search');
+      }
+    },
+    {
+      annotations: { title: 'AutoRAG Rewrite Search', readOnlyHint: true, openWorldHint: false },
+      outputSchema: PagedSearchOutputSchema,
+      instances: usesRag
+    }
+  );
+
+  // AI Search tool with configurable AI response
+  server.addTool(
+    'autorag_ai_search',
+    'Search documents in Cloudflare AutoRAG with AI query rewriting and optional AI-generated response. Returns document chunks and optionally AI answer.',
+    z.object({
+      query: z.string().describe('The search query to find relevant documents with AI query rewriting'),
+      score_threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
+      max_num_results: z.number().int().min(1).max(50).optional().describe('Maximum number of results to return'),
+      rewrite_query: z.boolean().default(true).describe('Whether to rewrite the query for better semantic matching (default: true)'),
+      include_ai_response: z.boolean().default(false).describe('Whether to include the AI-generated response in the output (default: false)'),
+      cursor: z.string().optional().describe('Pagination cursor from previous response to fetch next page of results'),
+      rag: ragArgument,
+      filters: FiltersSchema.optional(),
+      bypass_cache: z.boolean().default(false).describe('Skip the result cache and query AutoRAG directly (default: false)'),
+      format: OutputFormatSchema
+    }),
+    async ({ query, score_threshold, max_num_results, rewrite_query, include_ai_response, cursor, rag, filters, bypass_cache, format }, extra) => {
+      const client = autoragClient(rag, filters, extra.signal);
+
+      try {
+        const searchParams: AutoRAGAiSearchParams = { 
+          query,
+          rewrite_query,
+          ranking_options: {
+            score_threshold
+          }
+        };
+        if (max_num_results !== undefined) {
+          searchParams.max_num_results = max_num_results;
+        }
+        if (filters !== undefined) {
+          searchParams.filters = filters;
+        }
+        if (cursor !== undefined) {
+          searchParams.cursor = cursor;
+        }
+
+        // Progress notifications carry a message from 2025-03-26 on; otherwise tokens go out as log messages
+        let tokens = 0;
+        const forwardToken = (token: string) => extra.progressToken !== undefined && supportsFeature(server.protocolVersion, '2025-03-26')
+          ? extra.sendNotification({
+              jsonrpc: '2.0',
+              method: 'notifications/progress',
+              params: { progressToken: extra.progressToken, progress: ++tokens, message: token }
+            })
+          : extra.log('info', 'autorag_ai_search', { delta: token });
+
+        // Use aiSearch method to get both AI response and document chunks; the answer
+        // is streamed to the client while it is generated when it will be returned
+        // A cached answer is returned whole, without streaming
+        // aiSearch generates an answer even when include_ai_response is false, so every call
+        // counts against the daily limit unless it is answered from the cache
+        await logSearchRequest(extra, 'autorag_ai_search', rag, searchParams);
+        const { value: response, status } = await cache.fetch('autorag_ai_search', rag, searchParams, bypass_cache, async () => {
+          await extra.countAiAnswer?.();
+          return include_ai_response
+            ? streamAiSearch(client, searchParams, forwardToken, extra.signal)
+            : client.aiSearch(searchParams);
+        });
+        await logSearchResults(extra, 'autorag_ai_search', rag, searchParams, response, status);
+        const result = { ...response, data: await documents.link(rag, response.data), cache: status };
+        
+        // Transform the response to include nextCursor for MCP compliance
+        const responseToReturn = include_ai_response
+          ? {
+              ...result,
+              nextCursor: result.next_page || undefined
+            }
+          : {
+              object: result.object,
+              search_query: result.search_query,
+              data: result.data,
+              has_more: result.has_more,
+              next_page: result.next_page,
+              nextCursor: result.next_page || undefined,
+              cache: result.cache
+              // Exclude 'response' field
+            };
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json' ? JSON.stringify(responseToReturn, null, 2) : renderSearchResults(format, responseToReturn)
+            },
+            ...resourceLinks(responseToReturn.data)
+          ],
+          structuredContent: responseToReturn
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error in AutoRAG AI search');
+      }
+    },
+    {
+      annotations: { title: 'AutoRAG AI Search', readOnlyHint: true, openWorldHint: false },
+      outputSchema: AiSearchOutputSchema,
+      instances: usesRag
+    }
+  );
+
+  // Federated search across several instances
+  server.addTool(
+    'autorag_federated_search',
+    'Search several AutoRAG instances in parallel and return one merged, deduplicated ranking with each hit tagged by its source instance',
+    z.object({
+      query: z.string().describe('The search query to run against every selected instance'),
+      rags: z.array(z.enum(instanceNames)).min(1).optional().describe('AutoRAG instances to query (default: all instances from autorag_list_instances)'),
+      score_threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score threshold applied in each instance (0.0 to 1.0, default: 0.5)'),
+      max_num_results: z.number().int().min(1).max(50).default(10).describe('Maximum number of merged results to return (default: 10)'),
+      rewrite_query: z.boolean().default(false).describe('Whether to rewrite the query using AI in each instance (default: false)'),
+      bypass_cache: z.boolean().default(false).describe('Skip the result cache and query AutoRAG directly (default: false)')
+    }),
+    async ({ query, rags, score_threshold, max_num_results, rewrite_query, bypass_cache }, extra) => {
+      try {
+        const selected = federatedInstances(rags, extra.scope);
+        const searchParams: AutoRAGSearchParams = {
+          query,
+          rewrite_query,
+          max_num_results,
+          ranking_options: {
+            score_threshold
+          }
+        };
+
+        // One failing instance should not hide the results of the others; each instance is cached separately
+        const settled = await Promise.allSettled(selected.map(async rag => {
+          await logSearchRequest(extra, 'autorag_federated_search', rag, searchParams);
+          const fetched = await cache.fetch('autorag_federated_search', rag, searchParams, bypass_cache, () => env.AI.autorag(rag).search(searchParams));
+          await logSearchResults(extra, 'autorag_federated_search', rag, searchParams, fetched.value, fetched.status);
+          return fetched;
+        }));
+        const responses: Array<{ instance: string; data: Array<AutoRAGSearchResult & { resource_uri: string }> }> = [];
+        const errors: Array<{ instance: string; code: ToolErrorCode; message: string; retryable: boolean }> = [];
+        const statuses: Array<CacheStatus | undefined> = [];
+        for (const [index, outcome] of settled.entries()) {
+          if (outcome.status === 'fulfilled') {
+            responses.push({ instance: selected[index], data: await documents.link(selected[index], outcome.value.value.data) });
+            statuses.push(outcome.value.status);
+          } else {
+            const { code, message, retryable } = toToolError(outcome.reason);
+            errors.push({ instance: selected[index], code, message, retryable });
+            await extra.log('warning', 'autorag_federated_search', { step: 'error', instance: selected[index], code, message });
+          }
+        }
+        // With no instance answered there are no results to stand on, so the search fails as a whole
+        if (responses.length === 0 && errors.length > 0) {
+          throw new ToolError(errors[0].code, errors[0].message, errors[0].retryable);
+        }
+
+        const result = {
+          search_query: query,
+          instances: selected,
+          data: mergeFederatedResults(responses, max_num_results),
+          errors,
+          // A hit only when every instance was answered from the cache
+          cache: statuses.find(status => status !== 'hit') ?? statuses[0]
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            },
+            ...resourceLinks(result.data)
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error in AutoRAG federated search');
+      }
+    },
+    {
+      annotations: { title: 'AutoRAG Federated Search', readOnlyHint: true, openWorldHint: false },
+      outputSchema: FederatedSearchOutputSchema,
+      instances: ({ rags }: { rags?: string[] }, scope?: KeyScope) => federatedInstances(rags, scope)
+    }
+  );
+
+  // Several phrasings of one information need, searched concurrently and fused
+  server.addTool(
+    'autorag_multi_search',
+    'Search one AutoRAG instance with several phrasings of a question (given, or generated with Workers AI) and return one result list merged with reciprocal rank fusion. Improves recall when documents use different wording than the question.',
+    z.object({
+      queries: z.array(z.string().min(1)).min(1).max(MAX_MULTI_SEARCH_QUERIES).optional().describe(`Queries to run, e.g. several phrasings of the same question (at most ${MAX_MULTI_SEARCH_QUERIES})`),
+      query: z.string().min(1).optional().describe('A single query to paraphrase with Workers AI; searched together with its paraphrases'),
+      paraphrases: z.number().int().min(1).max(5).default(3).describe('How many paraphrases of query to generate (1 to 5, default: 3)'),
+      score_threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score threshold applied to each query (0.0 to 1.0, default: 0.5)'),
+      max_num_results: z.number().int().min(1).max(50).default(10).describe('Maximum number of merged results to return (default: 10)'),
+      rewrite_query: z.boolean().default(false).describe('Whether to rewrite each query using AI (default: false)'),
+      rag: ragArgument,
+      filters: FiltersSchema.optional(),
+      bypass_cache: z.boolean().default(false).describe('Skip the result cache and query AutoRAG directly (default: false)')
+    }),
+    async ({ queries, query, paraphrases, score_threshold, max_num_results, rewrite_query, rag, filters, bypass_cache }, extra) => {
+      if (!queries === !query) {
+        throw new ToolError('invalid_input', 'Provide exactly one of queries and query');
+      }
+      const client = autoragClient(rag, filters, extra.signal);
+
+      try {
+        let selected: string[] = queries ?? [];
+        let paraphraseError: ToolError | undefined;
+        if (query) {
+          // Paraphrases are generated on every call, and count against the daily limit like an answer
+          await extra.countAiAnswer?.();
+          const model = env.PARAPHRASE_MODEL ?? DEFAULT_PARAPHRASE_MODEL;
+          try {
+            selected = [query, ...await generateParaphrases(env.AI, model, query, paraphrases)];
+            await extra.log('debug', 'autorag_multi_search', { step: 'paraphrase', model, query, paraphrases: selected.slice(1) });
+          } catch (error) {
+            // Paraphrases only widen the search, so without them the query is searched alone
+            paraphraseError = toToolError(error);
+            selected = [query];
+            await extra.log('warning', 'autorag_multi_search', { step: 'paraphrase', model, query, code: paraphraseError.code, message: paraphraseError.message });
+          }
+        }
+        selected = Array.from(new Set(selected));
+
+        // Rank fusion rewards hits found by several queries, so each query looks deeper than the merged list
+        const searchParams = (text: string): AutoRAGSearchParams => ({
+          query: text,
+          rewrite_query,
+          max_num_results: Math.min(max_num_results * 2, MAX_SEARCH_RESULTS),
+          ranking_options: {
+            score_threshold
+          },
+          ...(filters !== undefined ? { filters } : {})
+        });
+
+        // One failing query should not hide the results of the others; each query is cached separately
+        const settled = await Promise.allSettled(selected.map(async text => {
+          const params = searchParams(text);
+          await logSearchRequest(extra, 'autorag_multi_search', rag, params);
+          const fetched = await cache.fetch('autorag_multi_search', rag, params, bypass_cache, () => client.search(params));
+          await logSearchResults(extra, 'autorag_multi_search', rag, params, fetched.value, fetched.status);
+          return fetched;
+        }));
+        const rankings: Array<{ query: string; data: AutoRAGSearchResult[] }> = [];
+        const errors: Array<{ query: string; code: ToolErrorCode; message: string; retryable: boolean }> = [];
+        const statuses: Array<CacheStatus | undefined> = [];
+        for (const [index, outcome] of settled.entries()) {
+          if (outcome.status === 'fulfilled') {
+            rankings.push({ query: selected[index], data: outcome.value.value.data });
+            statuses.push(outcome.value.status);
+          } else {
+            const { code, message, retryable } = toToolError(outcome.reason);
+            errors.push({ query: selected[index], code, message, retryable });
+            await extra.log('warning', 'autorag_multi_search', { step: 'error', instance: rag, query: selected[index], code, message });
           }
+        }
+        // With every query failed there is nothing to merge, so the first failure is the result
+        if (rankings.length === 0) {
+          throw new ToolError(errors[0].code, errors[0].message, errors[0].retryable);
+        }
+        if (paraphraseError) {
+          const { code, message, retryable } = paraphraseError;
+          errors.unshift({ query: query!, code, message: `Paraphrase generation failed: ${message}`, retryable });
+        }
+
+        const result = {
+          queries: selected,
+          data: await documents.link(rag, fuseMultiSearchResults(rankings, max_num_results)),
+          errors,
+          // A hit only when every query was answered from the cache
+          cache: statuses.find(status => status !== 'hit') ?? statuses[0]
         };
-        if (max_num_results !== undefined) {
-          searchParams.max_num_results = max_num_results;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            },
+            ...resourceLinks(result.data)
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error in AutoRAG multi search');
+      }
+    },
+    {
+      annotations: { title: 'AutoRAG Multi-Query Search', readOnlyHint: true, openWorldHint: false },
+      outputSchema: MultiSearchOutputSchema,
+      instances: usesRag
+    }
+  );
+
+  // Raw vector search against the Vectorize index behind AutoRAG
+  server.addTool(
+    'autorag_vectorize_query',
+    'Query the Vectorize index directly: embeds the query with Workers AI and returns the nearest vectors, with optional metadata filtering',
+    z.object({
+      query: z.string().describe('Text to embed and search for'),
+      topK: z.number().int().min(1).max(100).default(5).describe('Number of matches to return (default: 5, at most 20 when returning values or all metadata)'),
+      namespace: z.string().optional().describe('Restrict the search to a Vectorize namespace'),
+      returnMetadata: z.enum(['none', 'indexed', 'all']).default('none').describe('Which metadata to return with each match (default: none)'),
+      returnValues: z.boolean().default(false).describe('Whether to return the vector values of each match (default: false)'),
+      filter: VectorizeFilterSchema.optional()
+    }),
+    async ({ query, topK, namespace, returnMetadata, returnValues, filter }) => {
+      if (!env.VECTORIZE) {
+        throw new ToolError('misconfigured_binding', 'The VECTORIZE binding is not configured');
+      }
+
+      try {
+        const model = env.EMBEDDING_MODEL ?? DEFAULT_EMBEDDING_MODEL;
+        const embedding = await env.AI.run(model, { text: [query] });
+        const vector: number[] | undefined = embedding?.data?.[0];
+        if (!vector) {
+          throw new Error(`Embedding model ${model} returned no vector`);
         }
 
-        // Use search method instead of aiSearch to avoid AI generation
-        const result = await env.AI.autorag(env.AUTORAG_NAME).search(searchParams);
-        
+        const options: VectorizeQueryOptions = { topK, returnMetadata, returnValues };
+        if (namespace !== undefined) {
+          options.namespace = namespace;
+        }
+        if (filter !== undefined) {
+          options.filter = filter as VectorizeVectorMetadataFilter;
+        }
+
+        const { count, matches } = await env.VECTORIZE.query(vector, options);
+        const result = {
+          query,
+          model,
+          count,
+          matches: matches.map(match => ({
+            id: match.id,
+            score: match.score,
+            namespace: match.namespace,
+            metadata: match.metadata,
+            // Typed arrays do not serialize to JSON arrays
+            values: match.values && Array.from(match.values)
+          }))
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return toolErrorResult(error, 'Error querying Vectorize');
+      }
+    },
+    {
+      annotations: { title: 'Vectorize Query', readOnlyHint: true, openWorldHint: false },
+      outputSchema: VectorizeQueryOutputSchema,
+      // The Vectorize binding is the index of the AUTORAG_NAME instance
+      instances: () => [env.AUTORAG_NAME]
+    }
+  );
+
+  // Write path into the source bucket AutoRAG indexes
+  server.addTool(
+    'autorag_ingest_document',
+    'Store a document (text, markdown or base64-encoded file) in the R2 bucket an AutoRAG instance indexes, optionally starting a sync so it becomes searchable',
+    z.object({
+      path: DocumentPathSchema,
+      content: z.string().describe('Document content: plain text, markdown, or base64-encoded bytes'),
+      encoding: z.enum(['text', 'markdown', 'base64']).default('text').describe('How content is encoded (default: text)'),
+      content_type: z.string().optional().describe('MIME type to store, overriding the one implied by encoding (e.g. "application/pdf")'),
+      metadata: z.record(z.string()).optional().describe('Custom metadata stored with the object'),
+      sync: z.boolean().default(false).describe('Whether to start an AutoRAG sync after writing (default: false, requires CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN)'),
+      rag: ragArgument
+    }),
+    async ({ path, content, encoding, content_type, metadata, sync, rag }) => {
+      const { bindingName, bucket } = sourceBucket(rag);
+      if (!bucket) {
+        throw new ToolError(
+          'misconfigured_binding',
+          `Document ingestion for '${rag}' requires an R2 bucket binding named ${bindingName}`
+        );
+      }
+      if (sync && (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_API_TOKEN)) {
+        throw new ToolError(
+          'misconfigured_binding',
+          'Starting a sync requires the CLOUDFLARE_ACCOUNT_ID variable and the CLOUDFLARE_API_TOKEN secret to be configured'
+        );
+      }
+
+      try {
+        let body: Uint8Array | string = content;
+        if (encoding === 'base64') {
+          try {
+            body = Uint8Array.from(atob(content), char => char.charCodeAt(0));
+          } catch {
+            throw new ToolError('invalid_input', 'content is not valid base64');
+          }
+        }
+
+        const object = await bucket.put(path, body, {
+          httpMetadata: { contentType: content_type ?? CONTENT_TYPES[encoding as keyof typeof CONTENT_TYPES] },
+          customMetadata: metadata
+        });
+
+        const syncResult: { started: boolean; job_id?: string } = { started: false };
+        try {
+          if (sync) {
+            const { job_id } = await startSync(env.CLOUDFLARE_ACCOUNT_ID!, env.CLOUDFLARE_API_TOKEN!, rag);
+            syncResult.started = true;
+            syncResult.job_id = job_id;
+          }
+        } finally {
+          // Cached searches of the instance may no longer match its documents, even when the sync failed to start
+          await cache.invalidate(rag, syncResult.started);
+        }
+
+        const result = {
+          rag,
+          key: object.key,
+          size: object.size,
+          etag: object.etag,
+          uploaded: object.uploaded.toISOString(),
+          sync: syncResult
+        };
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(result, null, 2)
             }
-          ]
+          ],
+          structuredContent: result
         };
       } catch (error) {
+        return toolErrorResult(error, 'Error ingesting document');
+      }
+    },
+    {
+      annotations: { title: 'Ingest Document', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+      outputSchema: IngestDocumentOutputSchema,
+      instances: usesRag
+    }
+  );
+
+  // Reads the tool call data points back from Analytics Engine
+  server.addTool(
+    'autorag_usage_report',
+    'Summarize tool usage over the last N hours: calls, failure rates, latency and cache hits per tool, and the most frequent error codes',
+    z.object({
+      hours: z.number().int().min(1).max(720).default(24).describe('How many hours back to report on (1 to 720, default: 24)')
+    }),
+    async ({ hours }, extra) => {
+      const dataset = env.ANALYTICS_DATASET ?? DEFAULT_ANALYTICS_DATASET;
+      if (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_API_TOKEN) {
+        throw new ToolError(
+          'misconfigured_binding',
+          'Usage reports require the CLOUDFLARE_ACCOUNT_ID variable and the CLOUDFLARE_API_TOKEN secret (with Account Analytics Read permission) to be configured'
+        );
+      }
+      // The dataset name is interpolated into the query
+      if (!/^\w+$/.test(dataset)) {
+        throw new ToolError('misconfigured_binding', `Invalid ANALYTICS_DATASET '${dataset}'`);
+      }
+
+      try {
+        // Data points may be sampled, so every row is weighted by its _sample_interval
+        const window = `timestamp > NOW() - INTERVAL '${hours}' HOUR`;
+        const [toolRows, errorRows] = await Promise.all([
+          analyticsQuery<Record<string, string | number>>(env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN, `
+            SELECT
+              blob1 AS tool,
+              SUM(_sample_interval) AS calls,
+              SUM(_sample_interval * double4) AS errors,
+              SUM(_sample_interval * double1) / SUM(_sample_interval) AS avg_latency_ms,
+              SUM(_sample_interval * double2) / SUM(_sample_interval) AS avg_result_count,
+              SUM(if(blob4 = 'hit', _sample_interval, 0)) AS cache_hits
+            FROM ${dataset}
+            WHERE ${window}
+            GROUP BY tool
+            ORDER BY calls DESC
+            FORMAT JSON`, extra.signal),
+          analyticsQuery<Record<string, string | number>>(env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN, `
+            SELECT blob1 AS tool, blob3 AS code, SUM(_sample_interval) AS count
+            FROM ${dataset}
+            WHERE ${window} AND double4 = 1
+            GROUP BY tool, code
+            ORDER BY count DESC
+            LIMIT 50
+            FORMAT JSON`, extra.signal)
+        ]);
+
+        const tools = toolRows.map(row => {
+          const calls = Number(row.calls);
+          const errors = Number(row.errors);
+          return {
+            tool: String(row.tool),
+            calls,
+            errors,
+            failure_rate: calls > 0 ? Math.round(errors / calls * 1000) / 1000 : 0,
+            avg_latency_ms: Math.round(Number(row.avg_latency_ms)),
+            avg_result_count: Math.round(Number(row.avg_result_count) * 10) / 10,
+            cache_hits: Number(row.cache_hits)
+          };
+        });
+        const result = {
+          hours,
+          since: new Date(Date.now() - hours * 3600 * 1000).toISOString(),
+          total_calls: tools.reduce((total, tool) => total + tool.calls, 0),
+          total_errors: tools.reduce((total, tool) => total + tool.errors, 0),
+          tools,
+          errors: errorRows.map(row => ({ tool: String(row.tool), code: String(row.code), count: Number(row.count) }))
+        };
+
         return {
           content: [
             {
               type: 'text',
-              text: `Error in AutoRAG rewrite search: ${error instanceof Error ? error.message : String(error)}`
+              text: JSON.stringify(result, null, 2)
             }
-          ]
+          ],
+          structuredContent: result
         };
+      } catch (error) {
+        return toolErrorResult(error, 'Error building usage report');
+      }
+    },
+    {
+      annotations: { title: 'Usage Report', readOnlyHint: true, openWorldHint: false },
+      outputSchema: UsageReportOutputSchema
+    }
+  );
+
+  // Prompt templates that retrieve context from AutoRAG before handing over to the model
+  for (const template of resolvePromptTemplates(env)) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const argument of template.arguments) {
+      const field = z.string().describe(argument.description ?? argument.name);
+      shape[argument.name] = argument.required ? field : field.optional();
+    }
+    if (!shape.rag) {
+      shape.rag = z.enum(instanceNames).optional()
+        .describe(`AutoRAG instance to retrieve from (${instanceNames.join(', ')}; default: ${defaultInstance})`);
+    }
+
+    server.addPrompt(template.name, template.description, z.object(shape), async (args: Record<string, string | undefined>) => {
+      const rag = args.rag ?? defaultInstance;
+      const queries = template.queries.map(query => fillTemplate(query, args));
+
+      const responses = await Promise.all(queries.map(query => env.AI.autorag(rag).search({
+        query,
+        rewrite_query: template.rewrite_query,
+        max_num_results: template.max_num_results,
+        ranking_options: {
+          score_threshold: 0.5
+        }
+      })));
+
+      // Passages are numbered across all searches of the template
+      const sections: string[] = [];
+      let next = 1;
+      for (const [index, response] of responses.entries()) {
+        const data = await documents.link(rag, response.data);
+        const passages = data.length > 0
+          ? formatPassages(data, next)
+          : 'No passages matched this search.';
+        next += data.length;
+        sections.push(`### Search: "${queries[index]}"\n\n${passages}`);
+      }
+
+      return {
+        description: template.description,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `${fillTemplate(template.instructions, args)}\n\n## Retrieved passages\n\n${sections.join('\n\n')}`
+            }
+          }
+        ]
+      };
+    }, { instances: usesRag });
+  }
+
+  // Documents referenced by search results in this session
+  server.addResourceTemplate(
+    {
+      uriTemplate: 'autorag://{instance}/file/{file_id}',
+      name: 'autorag-document',
+      description: 'A document indexed by an AutoRAG instance. Search results link to these URIs; reading one returns the full source from R2 when a source bucket is bound, otherwise the chunks retrieved so far.'
+    },
+    {
+      list: async () => (await documents.list()).map(document => ({
+        uri: documentUri(document.instance, document.file_id),
+        name: document.filename,
+        description: `${document.filename} in AutoRAG instance ${document.instance}`
+      })),
+      read: async (uri, { instance, file_id }) => {
+        const document = instanceNames.includes(instance) ? await documents.get(instance, file_id) : undefined;
+        if (!document) {
+          throw new McpError(-32002, 'Resource not found', { uri });
+        }
+
+        // Prefer the full source document over the chunks seen in search results
+        const { bucket } = sourceBucket(instance);
+        const object = bucket && await bucket.get(document.filename);
+        if (object) {
+          const mimeType = object.httpMetadata?.contentType ?? 'application/octet-stream';
+          return [isTextContentType(mimeType)
+            ? { uri, mimeType, text: await object.text() }
+            : { uri, mimeType, blob: toBase64(new Uint8Array(await object.arrayBuffer())) }];
+        }
+
+        return [{
+          uri,
+          mimeType: 'text/plain',
+          text: Object.values(document.chunks).join('\n\n')
+        }];
+      },
+      instances: ({ instance }) => [instance]
+    }
+  );
+
+  return server;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, WWW-Authenticate, Retry-After, X-Trace-Id'
+};
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive'
+};
+
+const encoder = new TextEncoder();
+
+function jsonRpcErrorResponse(status: number, code: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...CORS_HEADERS,
+      ...headers
+    }
+  });
+}
+
+function isInitializeRequest(message: unknown): boolean {
+  return typeof message === 'object' && message !== null && (message as JsonRpcRequest).method === 'initialize';
+}
+
+// Every message of a POST, including each batch entry, is checked with this before anything else reads it
+function isJsonRpcMessage(message: unknown): message is JsonRpcRequest {
+  return typeof message === 'object' && message !== null && !Array.isArray(message)
+    && (message as JsonRpcRequest).jsonrpc === '2.0' && typeof (message as JsonRpcRequest).method === 'string';
+}
+
+// Requests carry an id; messages without one are notifications and must not be answered
+function isJsonRpcRequest(message: JsonRpcRequest): boolean {
+  return message.id !== undefined;
+}
+
+// The id of an invalid message is echoed when it has a usable one, otherwise it is null
+function invalidRequestResponse(message: unknown): JsonRpcResponse {
+  const id = (message as JsonRpcRequest | null)?.id;
+  return {
+    jsonrpc: '2.0',
+    id: typeof id === 'string' || typeof id === 'number' ? id : null,
+    error: {
+      code: -32600,
+      message: 'Invalid Request: Expected a JSON-RPC 2.0 message with a method'
+    }
+  };
+}
+
+async function writeSseEvent(
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+  message: JsonRpcResponse | JsonRpcNotification
+): Promise<void> {
+  await writer.write(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+}
+
+// Set by the Worker on requests it forwards to the session; any client-supplied value is dropped
+const KEY_SCOPE_HEADER = 'X-AutoRAG-Key-Scope';
+// Set by the Worker on every response, and on requests forwarded to the session
+const TRACE_ID_HEADER = 'X-Trace-Id';
+
+const RateLimitsSchema = z.object({
+  requests_per_minute: z.number().int().min(1).optional(),
+  ai_answers_per_day: z.number().int().min(0).optional()
+});
+
+const KeyScopeSchema = z.object({
+  label: z.string().min(1),
+  tools: z.array(z.string()).optional(),
+  instances: z.array(z.string()).optional(),
+  rate_limits: RateLimitsSchema.optional()
+});
+
+const ApiKeysSchema = z.array(KeyScopeSchema.extend({
+  key: z.string().min(1)
+}));
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Resolves the scope of an API key, looking it up in the API_KEYS secret and then in the
+ * API_KEYS_KV namespace. Returns null when the key is unknown. Keys are compared by
+ * digest, so no comparison depends on how much of a key matches.
+ */
+async function lookupApiKey(token: string, env: Env): Promise<KeyScope | null> {
+  if (!token) {
+    return null;
+  }
+  return lookupApiKeyDigest(await sha256Hex(token), env);
+}
+
+// Resolves the scope of the API key with the given SHA-256 hex digest, or null once the key is removed
+async function lookupApiKeyDigest(digest: string, env: Env): Promise<KeyScope | null> {
+  if (env.API_KEYS) {
+    const parsed = ApiKeysSchema.safeParse(JSON.parse(env.API_KEYS));
+    if (!parsed.success) {
+      throw new Error(`Invalid API_KEYS configuration: ${formatZodIssues(parsed.error.issues)}`);
+    }
+    for (const { key, ...scope } of parsed.data) {
+      if (await sha256Hex(key) === digest) {
+        return { ...scope, digest };
+      }
+    }
+  }
+
+  if (env.API_KEYS_KV) {
+    const entry = await env.API_KEYS_KV.get(digest, 'json');
+    if (entry) {
+      const parsed = KeyScopeSchema.safeParse(entry);
+      if (!parsed.success) {
+        throw new Error(`Invalid API_KEYS_KV entry ${digest}: ${formatZodIssues(parsed.error.issues)}`);
+      }
+      return { ...parsed.data, digest };
+    }
+  }
+
+  return null;
+}
+
+const OAUTH_PATHS = [
+  '/.well-known/oauth-authorization-server',
+  '/.well-known/oauth-protected-resource',
+  '/register',
+  '/authorize',
+  '/token',
+  '/revoke'
+];
+
+const AUTHORIZATION_CODE_TTL = 600;
+const ACCESS_TOKEN_TTL = 3600;
+const REFRESH_TOKEN_TTL = 30 * 24 * 3600;
+
+const ClientRegistrationSchema = z.object({
+  redirect_uris: z.array(z.string().url()).min(1),
+  client_name: z.string().max(200).optional(),
+  token_endpoint_auth_method: z.enum(['none', 'client_secret_basic', 'client_secret_post']).default('client_secret_basic'),
+  grant_types: z.array(z.enum(['authorization_code', 'refresh_token'])).default(['authorization_code']),
+  response_types: z.array(z.literal('code')).default(['code'])
+});
+
+interface OAuthClient extends z.infer<typeof ClientRegistrationSchema> {
+  client_id: string;
+  client_id_issued_at: number;
+  // Only the digest of the secret is stored; the secret itself is returned once, on registration
+  client_secret_hash?: string;
+}
+
+// Grants and tokens hold the digest of the approving API key, whose current scope is looked up on use
+interface AuthorizationGrant {
+  client_id: string;
+  redirect_uri: string;
+  code_challenge: string;
+  key_digest: string;
+}
+
+interface IssuedToken {
+  client_id: string;
+  key_digest: string;
+}
+
+class OAuthError extends Error {
+  status: number;
+  error: string;
+  // Set once the redirect URI is validated; the error is then reported to the client there
+  redirect?: { uri: string; state: string | null };
+
+  constructor(status: number, error: string, description: string, redirect?: { uri: string; state: string | null }) {
+    super(description);
+    this.name = 'OAuthError';
+    this.status = status;
+    this.error = error;
+    this.redirect = redirect;
+  }
+}
+
+function randomToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+}
+
+// Redirect URIs must be https, loopback http (native apps) or a private-use scheme, and carry no fragment
+function isAllowedRedirectUri(uri: string): boolean {
+  const url = new URL(uri);
+  if (url.hash || ['javascript:', 'data:', 'file:'].includes(url.protocol)) {
+    return false;
+  }
+  if (url.protocol === 'http:') {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  }
+  return true;
+}
+
+/**
+ * OAuth 2.1 authorization server for MCP clients: metadata discovery (RFC 8414, RFC 9728),
+ * dynamic client registration (RFC 7591), the authorization code grant with PKCE (S256 only),
+ * refresh token rotation and revocation (RFC 7009). Clients, codes and tokens live in the
+ * OAUTH_KV namespace, tokens under their SHA-256 digest. The Worker has no user accounts, so
+ * the person approving a client signs in with an API key and the tokens inherit its scope.
+ */
+class OAuthProvider {
+  private kv: KVNamespace;
+  private env: Env;
+
+  constructor(kv: KVNamespace, env: Env) {
+    this.kv = kv;
+    this.env = env;
+  }
+
+  async handle(request: Request, url: URL): Promise<Response> {
+    try {
+      switch (`${request.method} ${url.pathname}`) {
+        case 'GET /.well-known/oauth-authorization-server':
+          return this.json(200, this.authorizationServerMetadata(url.origin));
+        case 'GET /.well-known/oauth-protected-resource':
+          return this.json(200, {
+            resource: `${url.origin}/`,
+            authorization_servers: [url.origin],
+            bearer_methods_supported: ['header']
+          });
+        case 'POST /register':
+          return await this.register(request);
+        case 'GET /authorize':
+          return await this.authorizePage(url.searchParams);
+        case 'POST /authorize':
+          return await this.approve(new URLSearchParams(await request.text()));
+        case 'POST /token':
+          return await this.token(request);
+        case 'POST /revoke':
+          return await this.revoke(request);
+        default:
+          return this.json(405, { error: 'invalid_request', error_description: `${request.method} is not supported on ${url.pathname}` });
+      }
+    } catch (error) {
+      if (error instanceof OAuthError && error.redirect) {
+        const location = new URL(error.redirect.uri);
+        location.searchParams.set('error', error.error);
+        location.searchParams.set('error_description', error.message);
+        if (error.redirect.state !== null) {
+          location.searchParams.set('state', error.redirect.state);
+        }
+        return new Response(null, { status: 302, headers: { 'Location': location.toString(), 'Cache-Control': 'no-store' } });
+      }
+      if (error instanceof OAuthError) {
+        return this.json(error.status, { error: error.error, error_description: error.message });
+      }
+      throw error;
+    }
+  }
+
+  // Resolves the scope of the key an access token was issued for, or null when the token is unknown or expired or the key was removed
+  async verifyAccessToken(token: string): Promise<KeyScope | null> {
+    const issued = await this.kv.get<IssuedToken>(`access:${await sha256Hex(token)}`, 'json');
+    return issued ? lookupApiKeyDigest(issued.key_digest, this.env) : null;
+  }
+
+  private authorizationServerMetadata(origin: string) {
+    return {
+      issuer: origin,
+      authorization_endpoint: `${origin}/authorize`,
+      token_endpoint: `${origin}/token`,
+      registration_endpoint: `${origin}/register`,
+      revocation_endpoint: `${origin}/revoke`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+      revocation_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post']
+    };
+  }
+
+  private async register(request: Request): Promise<Response> {
+    const parsed = ClientRegistrationSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      throw new OAuthError(400, 'invalid_client_metadata', formatZodIssues(parsed.error.issues));
+    }
+    const invalidRedirect = parsed.data.redirect_uris.find(uri => !isAllowedRedirectUri(uri));
+    if (invalidRedirect) {
+      throw new OAuthError(400, 'invalid_redirect_uri', `Redirect URI not allowed: ${invalidRedirect}`);
+    }
+
+    const client: OAuthClient = {
+      ...parsed.data,
+      client_id: crypto.randomUUID(),
+      client_id_issued_at: Math.floor(Date.now() / 1000)
+    };
+    const clientSecret = client.token_endpoint_auth_method === 'none' ? undefined : randomToken();
+    if (clientSecret) {
+      client.client_secret_hash = await sha256Hex(clientSecret);
+    }
+    await this.kv.put(`client:${client.client_id}`, JSON.stringify(client));
+
+    const { client_secret_hash, ...registered } = client;
+    return this.json(201, clientSecret
+      ? { ...registered, client_secret: clientSecret, client_secret_expires_at: 0 }
+      : registered);
+  }
+
+  // Validates an authorization request. Errors about the client or redirect URI must not redirect.
+  private async authorizationRequest(params: URLSearchParams): Promise<{ client: OAuthClient; redirectUri: string; challenge: string; state: string | null }> {
+    const client = await this.client(params.get('client_id'));
+    const redirectUri = params.get('redirect_uri') ?? (client.redirect_uris.length === 1 ? client.redirect_uris[0] : '');
+    if (!client.redirect_uris.includes(redirectUri)) {
+      throw new OAuthError(400, 'invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    const state = params.get('state');
+    const redirect = { uri: redirectUri, state };
+    const challenge = params.get('code_challenge');
+    if (params.get('response_type') !== 'code') {
+      throw new OAuthError(400, 'unsupported_response_type', 'response_type must be code', redirect);
+    }
+    if (!challenge || params.get('code_challenge_method') !== 'S256') {
+      throw new OAuthError(400, 'invalid_request', 'PKCE with code_challenge_method S256 is required', redirect);
+    }
+    return { client, redirectUri, challenge, state };
+  }
+
+  private async authorizePage(params: URLSearchParams, message?: string): Promise<Response> {
+    const { client } = await this.authorizationRequest(params);
+    const hidden = Array.from(params.entries())
+      .filter(([name]) => name !== 'api_key')
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join('\n      ');
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Authorize ${escapeHtml(client.client_name ?? 'MCP client')}</title>
+</head>
+<body style="font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem">
+  <h1 style="font-size: 1.4rem">Authorize ${escapeHtml(client.client_name ?? client.client_id)}</h1>
+  <p>This application wants to search the AutoRAG knowledge bases of this server. Enter an API key to approve it; the application gets the same access as the key.</p>
+  ${message ? `<p role="alert" style="color: #b00020">${escapeHtml(message)}</p>` : ''}
+  <form method="post" action="/authorize">
+      ${hidden}
+    <label>API key <input type="password" name="api_key" autocomplete="off" required style="width: 100%"></label>
+    <p><button type="submit">Approve</button></p>
+  </form>
+</body>
+</html>`;
+
+    return new Response(html, {
+      status: message ? 401 : 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Frame-Options': 'DENY',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'"
+      }
+    });
+  }
+
+  private async approve(params: URLSearchParams): Promise<Response> {
+    const { client, redirectUri, challenge, state } = await this.authorizationRequest(params);
+    const apiKey = params.get('api_key') ?? '';
+    const keyDigest = await sha256Hex(apiKey);
+    if (!apiKey || !await lookupApiKeyDigest(keyDigest, this.env)) {
+      return this.authorizePage(params, 'The API key is not valid.');
+    }
+
+    const code = randomToken();
+    const grant: AuthorizationGrant = { client_id: client.client_id, redirect_uri: redirectUri, code_challenge: challenge, key_digest: keyDigest };
+    await this.kv.put(`code:${await sha256Hex(code)}`, JSON.stringify(grant), { expirationTtl: AUTHORIZATION_CODE_TTL });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    if (state !== null) {
+      location.searchParams.set('state', state);
+    }
+    return new Response(null, { status: 302, headers: { 'Location': location.toString(), 'Cache-Control': 'no-store' } });
+  }
+
+  private async token(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    const client = await this.authenticateClient(request, params);
+    const grantType = params.get('grant_type');
+    if (grantType !== 'authorization_code' && grantType !== 'refresh_token') {
+      throw new OAuthError(400, 'unsupported_grant_type', 'grant_type must be authorization_code or refresh_token');
+    }
+    if (!client.grant_types.includes(grantType)) {
+      throw new OAuthError(400, 'unauthorized_client', `The client is not registered for grant_type ${grantType}`);
+    }
+
+    switch (grantType) {
+      case 'authorization_code': {
+        const key = `code:${await sha256Hex(params.get('code') ?? '')}`;
+        const grant = await this.kv.get<AuthorizationGrant>(key, 'json');
+        // Codes are single use
+        await this.kv.delete(key);
+        if (!grant || grant.client_id !== client.client_id) {
+          throw new OAuthError(400, 'invalid_grant', 'The authorization code is invalid or expired');
+        }
+        if (params.has('redirect_uri') && params.get('redirect_uri') !== grant.redirect_uri) {
+          throw new OAuthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+        }
+        const verifier = params.get('code_verifier') ?? '';
+        const challenge = toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(verifier))));
+        if (challenge !== grant.code_challenge) {
+          throw new OAuthError(400, 'invalid_grant', 'code_verifier does not match the code challenge');
+        }
+        await this.requireApiKey(grant.key_digest);
+        return this.issueTokens(client, grant.key_digest);
+      }
+
+      case 'refresh_token': {
+        // Refresh tokens rotate: the presented one is spent and a new one is issued
+        const key = `refresh:${await sha256Hex(params.get('refresh_token') ?? '')}`;
+        const issued = await this.kv.get<IssuedToken>(key, 'json');
+        await this.kv.delete(key);
+        if (!issued || issued.client_id !== client.client_id) {
+          throw new OAuthError(400, 'invalid_grant', 'The refresh token is invalid or expired');
+        }
+        await this.requireApiKey(issued.key_digest);
+        return this.issueTokens(client, issued.key_digest);
+      }
+    }
+  }
+
+  // Removing an API key ends its OAuth grants: codes and refresh tokens approved with it are refused
+  private async requireApiKey(keyDigest: string): Promise<void> {
+    if (!await lookupApiKeyDigest(keyDigest, this.env)) {
+      throw new OAuthError(400, 'invalid_grant', 'The API key that approved this grant no longer exists');
+    }
+  }
+
+  private async revoke(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    const client = await this.authenticateClient(request, params);
+    const digest = await sha256Hex(params.get('token') ?? '');
+
+    // Unknown tokens and tokens of other clients are ignored, as RFC 7009 requires a 200 for them too
+    for (const key of [`access:${digest}`, `refresh:${digest}`]) {
+      const issued = await this.kv.get<IssuedToken>(key, 'json');
+      if (issued?.client_id === client.client_id) {
+        await this.kv.delete(key);
       }
     }
-  );
+    return new Response(null, { status: 200, headers: { ...CORS_HEADERS, 'Cache-Control': 'no-store' } });
+  }
 
-  // AI Search tool with configurable AI response
-  server.addTool(
-    'autorag_ai_search',
-    'Search documents in Cloudflare AutoRAG with AI query rewriting and optional AI-generated response. Returns document chunks and optionally AI answer.',
-    z.object({
-      query: z.string().describe('The search query to find relevant documents with AI query rewriting'),
-      score_threshold: z.number().optional().describe('Minimum similarity score threshold (0.0 to 1.0, default: 0.5)'),
-      max_num_results: z.number().optional().describe('Maximum number of results to return'),
-      rewrite_query: z.boolean().optional().describe('Whether to rewrite the query for better semantic matching (default: true)'),
-      include_ai_response: z.boolean().optional().describe('Whether to include the AI-generated response in the output (default: false)'),
-      cursor: z.string().optional().describe('Pagination cursor from previous response to fetch next page of results')
-    }),
-    async ({ query, score_threshold, max_num_results, rewrite_query, include_ai_response, cursor }) => {
+  private async issueTokens(client: OAuthClient, keyDigest: string): Promise<Response> {
+    const accessToken = randomToken();
+    const issued: IssuedToken = { client_id: client.client_id, key_digest: keyDigest };
+    await this.kv.put(`access:${await sha256Hex(accessToken)}`, JSON.stringify(issued), { expirationTtl: ACCESS_TOKEN_TTL });
+
+    const response: Record<string, unknown> = {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL
+    };
+    if (client.grant_types.includes('refresh_token')) {
+      const refreshToken = randomToken();
+      await this.kv.put(`refresh:${await sha256Hex(refreshToken)}`, JSON.stringify(issued), { expirationTtl: REFRESH_TOKEN_TTL });
+      response.refresh_token = refreshToken;
+    }
+    return this.json(200, response);
+  }
+
+  private async client(clientId: string | null): Promise<OAuthClient> {
+    const client = clientId ? await this.kv.get<OAuthClient>(`client:${clientId}`, 'json') : null;
+    if (!client) {
+      throw new OAuthError(401, 'invalid_client', 'Unknown client_id');
+    }
+    return client;
+  }
+
+  // Confidential clients authenticate with HTTP Basic or form credentials; public clients only send client_id
+  private async authenticateClient(request: Request, params: URLSearchParams): Promise<OAuthClient> {
+    let clientId = params.get('client_id');
+    let clientSecret = params.get('client_secret');
+    const basic = request.headers.get('Authorization')?.match(/^Basic\s+(\S+)$/i)?.[1];
+    if (basic) {
       try {
-        const searchParams: AutoRAGAiSearchParams = { 
-          query,
-          rewrite_query: rewrite_query ?? true, // Default to true for AI search
-          ranking_options: {
-            score_threshold: score_threshold ?? 0.5 // Default threshold of 0.5
-          }
-        };
-        if (max_num_results !== undefined) {
-          searchParams.max_num_results = max_num_results;
-        }
-        if (cursor !== undefined) {
-          searchParams.cursor = cursor;
+        const credentials = atob(basic);
+        const separator = credentials.indexOf(':');
+        if (separator < 0) {
+          throw new Error('Missing separator');
         }
-
-        // Use aiSearch method to get both AI response and document chunks
-        const result = await env.AI.autorag(env.AUTORAG_NAME).aiSearch(searchParams);
-        
-        // Transform the response to include nextCursor for MCP compliance
-        const responseToReturn = include_ai_response ?? false 
-          ? {
-              ...result,
-              nextCursor: result.next_page || undefined
-            }
-          : {
-              object: result.object,
-              search_query: result.search_query,
-              data: result.data,
-              has_more: result.has_more,
-              next_page: result.next_page,
-              nextCursor: result.next_page || undefined
-              // Exclude 'response' field
-            };
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(responseToReturn, null, 2)
-            }
-          ]
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error in AutoRAG AI search: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        clientId = decodeURIComponent(credentials.slice(0, separator));
+        clientSecret = decodeURIComponent(credentials.slice(separator + 1));
+      } catch {
+        throw new OAuthError(401, 'invalid_client', 'Malformed Basic credentials');
       }
     }
-  );
 
-  return server;
+    const client = await this.client(clientId);
+    if (client.client_secret_hash && (!clientSecret || await sha256Hex(clientSecret) !== client.client_secret_hash)) {
+      throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+    }
+    return client;
+  }
+
+  private json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        ...CORS_HEADERS
+      }
+    });
+  }
 }
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+// Bearer tokens are API keys or, when the OAuth server is enabled, access tokens it issued
+async function authenticate(request: Request, env: Env): Promise<KeyScope | null> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return null;
+  }
+  return await lookupApiKey(token, env)
+    ?? (env.OAUTH_KV ? await new OAuthProvider(env.OAUTH_KV, env).verifyAccessToken(token) : null);
+}
+
+interface RateLimitUsage {
+  requests: number;
+  ai_answers: number;
+}
+
+interface RateLimitDecision {
+  allowed: boolean;
+  // Set when the call was refused: the exceeded limit and the seconds until its window resets
+  limit?: keyof RateLimits;
+  retry_after?: number;
+}
+
+// Fixed windows: the current UTC minute and the current UTC day
+interface RateLimitCounters {
+  minute: { window: number; requests: number };
+  day: { window: number; ai_answers: number };
+}
+
+/**
+ * Counts usage against the limits and returns the updated counters. A call that would
+ * exceed either limit is refused and not counted.
+ */
+function consumeRateLimits(
+  counters: RateLimitCounters | undefined,
+  usage: RateLimitUsage,
+  limits: RateLimits,
+  now: number
+): { decision: RateLimitDecision; counters: RateLimitCounters } {
+  const minute = Math.floor(now / 60_000);
+  const day = Math.floor(now / 86_400_000);
+  const current: RateLimitCounters = {
+    minute: counters?.minute.window === minute ? counters.minute : { window: minute, requests: 0 },
+    day: counters?.day.window === day ? counters.day : { window: day, ai_answers: 0 }
+  };
+
+  if (limits.requests_per_minute !== undefined && usage.requests > 0
+    && current.minute.requests + usage.requests > limits.requests_per_minute) {
+    return {
+      decision: { allowed: false, limit: 'requests_per_minute', retry_after: Math.ceil(((minute + 1) * 60_000 - now) / 1000) },
+      counters: current
+    };
+  }
+  if (limits.ai_answers_per_day !== undefined && usage.ai_answers > 0
+    && current.day.ai_answers + usage.ai_answers > limits.ai_answers_per_day) {
+    return {
+      decision: { allowed: false, limit: 'ai_answers_per_day', retry_after: Math.ceil(((day + 1) * 86_400_000 - now) / 1000) },
+      counters: current
+    };
+  }
+
+  current.minute.requests += usage.requests;
+  current.day.ai_answers += usage.ai_answers;
+  return { decision: { allowed: true }, counters: current };
+}
+
+interface RateLimitStore {
+  consume(client: string, usage: RateLimitUsage, limits: RateLimits): Promise<RateLimitDecision>;
+}
+
+// One RateLimiter object per client, so its counters are consistent across Worker instances
+class DurableObjectRateLimitStore implements RateLimitStore {
+  private namespace: DurableObjectNamespace;
+
+  constructor(namespace: DurableObjectNamespace) {
+    this.namespace = namespace;
+  }
+
+  async consume(client: string, usage: RateLimitUsage, limits: RateLimits): Promise<RateLimitDecision> {
+    const limiter = this.namespace.get(this.namespace.idFromName(client));
+    const response = await limiter.fetch('https://rate-limiter/consume', {
+      method: 'POST',
+      body: JSON.stringify({ usage, limits })
+    });
+    return response.json<RateLimitDecision>();
+  }
+}
+
+/**
+ * Stand-in for the RateLimiter Durable Object when RATE_LIMITER is not bound, such as in
+ * local development and tests. Counters only live as long as the isolate and are not
+ * shared between isolates, so it does not enforce limits reliably in production.
+ */
+class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, RateLimitCounters> = new Map();
+
+  async consume(client: string, usage: RateLimitUsage, limits: RateLimits): Promise<RateLimitDecision> {
+    const { decision, counters } = consumeRateLimits(this.counters.get(client), usage, limits, Date.now());
+    this.counters.set(client, counters);
+    return decision;
+  }
+}
+
+const memoryRateLimits = new MemoryRateLimitStore();
+
+// RATE_LIMITS, with the limits of the caller's API key taking precedence
+function resolveRateLimits(env: Env, scope: KeyScope | null): RateLimits {
+  const parsed = RateLimitsSchema.safeParse(env.RATE_LIMITS ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid RATE_LIMITS configuration: ${formatZodIssues(parsed.error.issues)}`);
+  }
+  return { ...parsed.data, ...scope?.rate_limits };
+}
+
+// Methods counted against requests_per_minute; answers are counted by the tools that generate them
+const RATE_LIMITED_METHODS = ['tools/call', 'prompts/get'];
+
+function rateLimitError(decision: RateLimitDecision): McpError {
+  return new McpError(
+    -32000,
+    `Too Many Requests: ${decision.limit} limit reached, retry in ${decision.retry_after} seconds`,
+    { limit: decision.limit, retry_after: decision.retry_after }
+  );
+}
+
+/**
+ * Durable Object holding one MCP session of the Streamable HTTP transport.
+ * All requests carrying the same Mcp-Session-Id are routed to the same instance,
+ * so the standalone GET stream can receive notifications raised while handling POSTs.
+ */
+export class McpSession implements DurableObject {
+  private state: DurableObjectState;
+  private env: Env;
+  private server: WorkersMcpServer;
+  private standaloneStream?: WritableStreamDefaultWriter<Uint8Array>;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+    this.server = createServer(env, state.storage);
+
+    // The object may have been evicted since initialize, so restore the negotiated revision
+    this.state.blockConcurrencyWhile(async () => {
+      const session = await this.state.storage.get<SessionState>('session');
+      if (session) {
+        this.server.protocolVersion = session.protocolVersion;
+        this.server.loggingLevel = session.loggingLevel ?? DEFAULT_LOGGING_LEVEL;
+      }
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const sessionId = request.headers.get('Mcp-Session-Id')!;
+
+    // Clients on 2025-06-18 and later send the negotiated revision with every request after initialize
+    const protocolVersionHeader = request.headers.get('MCP-Protocol-Version');
+    if (protocolVersionHeader && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersionHeader)) {
+      return jsonRpcErrorResponse(
+        400,
+        -32000,
+        `Bad Request: Unsupported protocol version (supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+      );
+    }
+
+    const scopeHeader = request.headers.get(KEY_SCOPE_HEADER);
+    const scope: KeyScope | undefined = scopeHeader ? JSON.parse(decodeURIComponent(scopeHeader)) : undefined;
+    const session = await this.state.storage.get<SessionState>('session');
+    if (session && session.keyDigest !== scope?.digest) {
+      return jsonRpcErrorResponse(403, -32000, 'Forbidden: The session belongs to another API key');
+    }
+
+    switch (request.method) {
+      case 'POST':
+        return this.handlePost(request, sessionId, scope);
+      case 'GET':
+        return this.handleGet(request, sessionId);
+      case 'DELETE':
+        return this.handleDelete();
+      default:
+        return jsonRpcErrorResponse(405, -32000, 'Method not allowed.', { 'Allow': 'GET, POST, DELETE' });
+    }
+  }
+
+  private async handlePost(request: Request, sessionId: string, scope?: KeyScope): Promise<Response> {
+    const traceId = request.headers.get(TRACE_ID_HEADER) ?? crypto.randomUUID();
+
+    let body: unknown;
     try {
-      // Handle CORS preflight
-      if (request.method === 'OPTIONS') {
-        return new Response(null, {
-          status: 200,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type'
-          }
-        });
+      body = await request.json();
+    } catch (error) {
+      return jsonRpcErrorResponse(400, -32700, 'Parse error');
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    if (messages.length === 0) {
+      return jsonRpcErrorResponse(400, -32600, 'Invalid Request: Empty batch');
+    }
+    // Invalid batch entries are answered one by one; an invalid single message fails the POST
+    if (!isBatch && !isJsonRpcMessage(body)) {
+      const { error } = invalidRequestResponse(body);
+      return jsonRpcErrorResponse(400, error!.code, error!.message);
+    }
+
+    const session = await this.state.storage.get<SessionState>('session');
+    if (messages.some(isInitializeRequest)) {
+      if (session) {
+        return jsonRpcErrorResponse(400, -32600, 'Invalid Request: Server already initialized');
       }
+      if (messages.length > 1) {
+        return jsonRpcErrorResponse(400, -32600, 'Invalid Request: Only one initialization request is allowed');
+      }
+    } else if (!session) {
+      return jsonRpcErrorResponse(404, -32001, 'Session not found');
+    }
 
-      // Only handle POST requests for MCP
-      if (request.method !== 'POST') {
-        return new Response(JSON.stringify({
-          jsonrpc: '2.0',
-          error: {
-            code: -32600,
-            message: 'Invalid Request - only POST method supported'
-          },
-          id: null
-        }), {
-          status: 405,
-          headers: { 
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type'
-          }
-        });
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      'Mcp-Session-Id': sessionId
+    };
+
+    // Notifications get no response; a POST containing only notifications is acknowledged with 202
+    const requests = messages.filter(isJsonRpcMessage).filter(isJsonRpcRequest);
+    if (requests.length === 0 && messages.every(isJsonRpcMessage)) {
+      const sendNotification = (notification: JsonRpcNotification) => this.sendStandalone(notification);
+      await Promise.all(messages.map(message => this.dispatch(message, { sendNotification, scope, traceId })));
+      return new Response(null, { status: 202, headers });
+    }
+
+    // A POST is refused as a whole when any of its requests is outside the API key's scope
+    if (scope) {
+      for (const message of requests) {
+        const denied = this.server.authorize(message, scope);
+        if (denied) {
+          return jsonRpcErrorResponse(403, -32000, `Forbidden: ${denied}`, headers);
+        }
       }
+    }
 
-      const body = await request.json() as JsonRpcRequest;
-      const server = createServer(env);
-      const response = await server.handleRequest(body);
-      
-      return new Response(JSON.stringify(response), {
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+    // Only requests that passed the session and scope checks count against the limits. A request
+    // over a limit is answered with an error of its own, and the rest of its batch still runs.
+    const consume = this.rateLimiter(request, scope);
+    const refused = new Map<unknown, JsonRpcResponse>();
+    if (consume) {
+      let retryAfter = 0;
+      for (const message of requests.filter(message => RATE_LIMITED_METHODS.includes(message.method))) {
+        const decision = await consume({ requests: 1, ai_answers: 0 });
+        if (!decision.allowed) {
+          const { code, message: text, data } = rateLimitError(decision);
+          refused.set(message, { jsonrpc: '2.0', id: message.id ?? null, error: { code, message: text, data } });
+          retryAfter = Math.max(retryAfter, decision.retry_after!);
+        }
+      }
+      if (refused.size > 0) {
+        headers['Retry-After'] = String(retryAfter);
+      }
+    }
+    const countAiAnswer = consume && (async () => {
+      const decision = await consume({ requests: 0, ai_answers: 1 });
+      if (!decision.allowed) {
+        throw rateLimitError(decision);
+      }
+    });
+    const handle = async (message: unknown, sendNotification: (notification: JsonRpcNotification) => Promise<void>) =>
+      refused.get(message) ?? this.dispatch(message, { sendNotification, scope, traceId, countAiAnswer });
+
+    // Reply over SSE when the client accepts it so that notifications raised while
+    // handling the request reach the client before the response
+    const acceptHeader = request.headers.get('Accept') ?? '';
+    if (acceptHeader.includes('text/event-stream')) {
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+      const sendNotification = (notification: JsonRpcNotification) => writeSseEvent(writer, notification);
+
+      // Batched requests run concurrently and each response is written as soon as it is ready
+      const respond = async () => {
+        try {
+          await Promise.all(messages.map(async message => {
+            const response = await handle(message, sendNotification);
+            if (response) {
+              await writeSseEvent(writer, response);
+            }
+          }));
+        } finally {
+          await writer.close();
         }
+      };
+      this.state.waitUntil(respond().catch(error => console.error('Error writing MCP SSE response:', error)));
+
+      return new Response(readable, {
+        status: 200,
+        headers: { ...SSE_HEADERS, ...headers }
+      });
+    }
+
+    const sendNotification = (notification: JsonRpcNotification) => this.sendStandalone(notification);
+    const responses = await Promise.all(messages.map(message => handle(message, sendNotification)));
+    const requestResponses = responses.filter(response => response !== undefined);
+    // Every request was cancelled, so there is nothing to answer
+    if (requestResponses.length === 0) {
+      return new Response(null, { status: 202, headers });
+    }
+
+    return new Response(JSON.stringify(isBatch ? requestResponses : requestResponses[0]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...headers }
+    });
+  }
+
+  // Limits apply per API key, or per IP address when authentication is off; undefined when none are set
+  private rateLimiter(request: Request, scope?: KeyScope): ((usage: RateLimitUsage) => Promise<RateLimitDecision>) | undefined {
+    const limits = resolveRateLimits(this.env, scope ?? null);
+    if (Object.keys(limits).length === 0) {
+      return undefined;
+    }
+
+    // Labels need not be unique, so keys are told apart by digest
+    const client = scope ? `key:${scope.digest}` : `ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`;
+    const store = this.env.RATE_LIMITER ? new DurableObjectRateLimitStore(this.env.RATE_LIMITER) : memoryRateLimits;
+    return usage => store.consume(client, usage, limits);
+  }
+
+  private async handleGet(request: Request, sessionId: string): Promise<Response> {
+    const acceptHeader = request.headers.get('Accept') ?? '';
+    if (!acceptHeader.includes('text/event-stream')) {
+      return jsonRpcErrorResponse(406, -32000, 'Not Acceptable: Client must accept text/event-stream');
+    }
+    if (!await this.state.storage.get<SessionState>('session')) {
+      return jsonRpcErrorResponse(404, -32001, 'Session not found');
+    }
+    // A new GET replaces the previous stream: the client reconnects when its stream drops,
+    // and a dropped stream is only noticed once a write to it fails
+    if (this.standaloneStream) {
+      await this.standaloneStream.close().catch(() => {});
+      this.standaloneStream = undefined;
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.standaloneStream = writable.getWriter();
+
+    return new Response(readable, {
+      status: 200,
+      headers: {
+        ...SSE_HEADERS,
+        ...CORS_HEADERS,
+        'Mcp-Session-Id': sessionId
+      }
+    });
+  }
+
+  private async handleDelete(): Promise<Response> {
+    if (!await this.state.storage.get<SessionState>('session')) {
+      return jsonRpcErrorResponse(404, -32001, 'Session not found');
+    }
+
+    if (this.standaloneStream) {
+      await this.standaloneStream.close().catch(() => {});
+      this.standaloneStream = undefined;
+    }
+    await this.state.storage.deleteAll();
+
+    return new Response(null, { status: 200, headers: CORS_HEADERS });
+  }
+
+  private async dispatch(
+    message: unknown,
+    options: Omit<RequestHandlerExtra, 'signal' | 'progressToken' | 'log'>
+  ): Promise<JsonRpcResponse | undefined> {
+    if (!isJsonRpcMessage(message)) {
+      return invalidRequestResponse(message);
+    }
+    if (!isJsonRpcRequest(message)) {
+      await this.server.handleNotification(message);
+      return undefined;
+    }
+
+    const response = await this.server.handleRequest(message, options);
+    if (!response) {
+      return undefined;
+    }
+    if (response.result && options.traceId) {
+      response.result._meta = { ...response.result._meta, traceId: options.traceId };
+    }
+    if (isInitializeRequest(message) && !response.error) {
+      await this.state.storage.put<SessionState>('session', {
+        createdAt: Date.now(),
+        protocolVersion: this.server.protocolVersion,
+        keyDigest: options.scope?.digest
       });
-      
+    } else if (message.method === 'logging/setLevel' && !response.error) {
+      const session = await this.state.storage.get<SessionState>('session');
+      await this.state.storage.put<SessionState>('session', { ...session!, loggingLevel: this.server.loggingLevel });
+    }
+    return response;
+  }
+
+  // Notifications not tied to an open POST stream go to the GET stream, if the client opened one
+  private async sendStandalone(notification: JsonRpcNotification): Promise<void> {
+    if (!this.standaloneStream) {
+      return;
+    }
+    try {
+      await writeSseEvent(this.standaloneStream, notification);
     } catch (error) {
-      console.error('Error handling MCP request:', error);
-      return new Response(JSON.stringify({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: `Internal server error: ${error instanceof Error ? error.message : String(error)}`
-        },
-        id: null
-      }), {
-        status: 500,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
+      // The client went away; it may open a new stream with another GET
+      this.standaloneStream = undefined;
+    }
+  }
+}
+
+/**
+ * Durable Object keeping the rate limit counters of one client (an API key or an IP
+ * address). Requests to one object are handled one at a time, so counting is exact.
+ */
+export class RateLimiter implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { usage, limits } = await request.json<{ usage: RateLimitUsage; limits: RateLimits }>();
+    const { decision, counters } = consumeRateLimits(
+      await this.state.storage.get<RateLimitCounters>('counters'),
+      usage,
+      limits,
+      Date.now()
+    );
+    await this.state.storage.put('counters', counters);
+    return Response.json(decision);
+  }
+}
+
+// Routes OAuth endpoints, authenticates and forwards MCP requests to their session, which applies the rate limits
+async function handleFetch(request: Request, env: Env, traceId: string): Promise<Response> {
+  try {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: CORS_HEADERS
       });
     }
+
+    const url = new URL(request.url);
+    if (env.OAUTH_KV && OAUTH_PATHS.includes(url.pathname)) {
+      return await new OAuthProvider(env.OAUTH_KV, env).handle(request, url);
+    }
+
+    if (!['GET', 'POST', 'DELETE'].includes(request.method)) {
+      return jsonRpcErrorResponse(405, -32000, 'Method not allowed.', { 'Allow': 'GET, POST, DELETE' });
+    }
+
+    // Authentication is on once API keys or the OAuth server are configured
+    let scope: KeyScope | null = null;
+    if (env.API_KEYS !== undefined || env.API_KEYS_KV !== undefined || env.OAUTH_KV !== undefined) {
+      scope = await authenticate(request, env);
+      if (!scope) {
+        // OAuth clients discover the authorization server through the resource metadata
+        const challenge = env.OAUTH_KV
+          ? `Bearer realm="autorag-mcp", resource_metadata="${url.origin}/.well-known/oauth-protected-resource"`
+          : 'Bearer realm="autorag-mcp"';
+        return jsonRpcErrorResponse(401, -32000, 'Unauthorized: A valid API key or access token is required as a bearer token', {
+          'WWW-Authenticate': challenge
+        });
+      }
+    }
+
+    let sessionId = request.headers.get('Mcp-Session-Id');
+    let body: string | undefined;
+
+    if (request.method === 'POST') {
+      body = await request.text();
+      let message: unknown;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        return jsonRpcErrorResponse(400, -32700, 'Parse error');
+      }
+
+      if (!Array.isArray(message) && !isJsonRpcMessage(message)) {
+        const { error } = invalidRequestResponse(message);
+        return jsonRpcErrorResponse(400, error!.code, error!.message);
+      }
+
+      // Every initialize request gets a new session; a session ID sent along with it is ignored
+      const messages = Array.isArray(message) ? message : [message];
+      if (messages.some(isInitializeRequest)) {
+        sessionId = crypto.randomUUID();
+      }
+    }
+
+    if (!sessionId) {
+      return jsonRpcErrorResponse(400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+    }
+
+    const headers = new Headers(request.headers);
+    headers.set('Mcp-Session-Id', sessionId);
+    headers.delete(KEY_SCOPE_HEADER);
+    headers.set(TRACE_ID_HEADER, traceId);
+    if (scope) {
+      // Header values must be ASCII, and labels need not be
+      headers.set(KEY_SCOPE_HEADER, encodeURIComponent(JSON.stringify(scope)));
+    }
+
+    const session = env.MCP_SESSION.get(env.MCP_SESSION.idFromName(sessionId));
+    return await session.fetch(new Request(request.url, {
+      method: request.method,
+      headers,
+      body
+    }));
+    
+  } catch (error) {
+    console.error(`Error handling MCP request ${traceId}:`, error);
+    return new Response(JSON.stringify({
+      jsonrpc: '2.0',
+      error: {
+        code: -32603,
+        message: `Internal server error: ${error instanceof Error ? error.message : String(error)}`
+      },
+      id: null
+    }), {
+      status: 500,
+      headers: { 
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  }
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const traceId = crypto.randomUUID();
+    const response = await handleFetch(request, env, traceId);
+
+    // Responses from the session object have immutable headers
+    const traced = new Response(response.body, response);
+    traced.headers.set(TRACE_ID_HEADER, traceId);
+    return traced;
   }
-};
\ No newline at end of file
+};
+
+// Exported for the unit tests in test/
+export {
+  consumeRateLimits,
+  MemoryRateLimitStore,
+  OAuthProvider,
+  SearchCursors,
+  hybridRerank,
+  fuseMultiSearchResults,
+  mergeFederatedResults
+};
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { OAuthProvider } from '../src/server';
+
+const ORIGIN = 'https://autorag.example.com';
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+// The provider only reads the API key settings
+type Env = ConstructorParameters<typeof OAuthProvider>[1];
+
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string, type?: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+    }
+  } as unknown as KVNamespace;
+}
+
+async function s256(verifier: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)));
+  return btoa(String.fromCharCode(...digest)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('OAuthProvider', () => {
+  const verifier = 'a-code-verifier-that-is-long-enough-for-pkce-0123456789';
+  let env: Env;
+  let provider: OAuthProvider;
+  let clientId: string;
+
+  const send = (method: string, path: string, body?: Record<string, unknown>) => {
+    const request = new Request(`${ORIGIN}${path}`, {
+      method,
+      headers: { 'Content-Type': path === '/register' ? 'application/json' : 'application/x-www-form-urlencoded' },
+      body: body && (path === '/register' ? JSON.stringify(body) : new URLSearchParams(body as Record<string, string>).toString())
+    });
+    return provider.handle(request, new URL(request.url));
+  };
+
+  const authorize = async (apiKey: string) =>
+    send('POST', '/authorize', {
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: await s256(verifier),
+      code_challenge_method: 'S256',
+      state: 'xyz',
+      api_key: apiKey
+    });
+
+  const codeFor = async (apiKey: string) => {
+    const location = new URL((await authorize(apiKey)).headers.get('Location')!);
+    expect(location.searchParams.get('state')).toBe('xyz');
+    return location.searchParams.get('code')!;
+  };
+
+  const token = async (params: Record<string, string>) => {
+    const response = await send('POST', '/token', { client_id: clientId, ...params });
+    return { status: response.status, body: await response.json<Record<string, any>>() };
+  };
+
+  beforeEach(async () => {
+    env = { API_KEYS: JSON.stringify([{ key: 'key-1', label: 'support-bot', instances: ['docs'] }]) } as Env;
+    provider = new OAuthProvider(memoryKv(), env);
+    const response = await send('POST', '/register', {
+      redirect_uris: [REDIRECT_URI],
+      token_endpoint_auth_method: 'none',
+      grant_types: ['authorization_code', 'refresh_token']
+    });
+    expect(response.status).toBe(201);
+    clientId = (await response.json<{ client_id: string }>()).client_id;
+  });
+
+  it('refuses to approve with an unknown API key', async () => {
+    const response = await authorize('wrong-key');
+    expect(response.status).toBe(401);
+    expect(await response.text()).toContain('The API key is not valid.');
+  });
+
+  it('issues tokens with the scope of the approving key once the code verifier matches', async () => {
+    const code = await codeFor('key-1');
+    const { status, body } = await token({ grant_type: 'authorization_code', code, code_verifier: verifier, redirect_uri: REDIRECT_URI });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ token_type: 'Bearer', expires_in: 3600 });
+    expect(await provider.verifyAccessToken(body.access_token)).toMatchObject({ label: 'support-bot', instances: ['docs'] });
+    expect(await provider.verifyAccessToken('unknown')).toBeNull();
+  });
+
+  it('rejects a wrong code verifier and spends the code', async () => {
+    const code = await codeFor('key-1');
+
+    expect(await token({ grant_type: 'authorization_code', code, code_verifier: 'wrong' })).toEqual({
+      status: 400,
+      body: { error: 'invalid_grant', error_description: 'code_verifier does not match the code challenge' }
+    });
+    expect((await token({ grant_type: 'authorization_code', code, code_verifier: verifier })).body.error).toBe('invalid_grant');
+  });
+
+  it('rotates refresh tokens', async () => {
+    const code = await codeFor('key-1');
+    const issued = (await token({ grant_type: 'authorization_code', code, code_verifier: verifier })).body;
+
+    const refreshed = await token({ grant_type: 'refresh_token', refresh_token: issued.refresh_token });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refresh_token).not.toBe(issued.refresh_token);
+    expect(await provider.verifyAccessToken(refreshed.body.access_token)).toMatchObject({ label: 'support-bot' });
+
+    expect(await token({ grant_type: 'refresh_token', refresh_token: issued.refresh_token })).toEqual({
+      status: 400,
+      body: { error: 'invalid_grant', error_description: 'The refresh token is invalid or expired' }
+    });
+  });
+
+  it('ends the tokens of a removed API key', async () => {
+    const code = await codeFor('key-1');
+    const issued = (await token({ grant_type: 'authorization_code', code, code_verifier: verifier })).body;
+
+    env.API_KEYS = JSON.stringify([{ key: 'key-2', label: 'other' }]);
+    expect(await provider.verifyAccessToken(issued.access_token)).toBeNull();
+    expect(await token({ grant_type: 'refresh_token', refresh_token: issued.refresh_token })).toEqual({
+      status: 400,
+      body: { error: 'invalid_grant', error_description: 'The API key that approved this grant no longer exists' }
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { fuseMultiSearchResults, hybridRerank, mergeFederatedResults } from '../src/server';
+
+function hit(file_id: string, score: number, ...texts: string[]) {
+  return {
+    file_id,
+    filename: `${file_id}.md`,
+    score,
+    content: texts.map((text, index) => ({ id: `${file_id}-${index}`, type: 'text', text }))
+  };
+}
+
+describe('hybridRerank', () => {
+  const hits = [
+    hit('overview', 0.9, 'An overview of the account settings page'),
+    hit('errors', 0.8, 'ERR-4012 means the password reset link expired. Request a new password reset link.'),
+    hit('billing', 0.7, 'Invoices are sent at the start of each month')
+  ];
+
+  it('promotes keyword matches in weighted fusion', () => {
+    const ranked = hybridRerank('ERR-4012 password', hits, { fusion: 'weighted', lexical_weight: 0.3 });
+
+    expect(ranked.map(result => result.file_id)).toEqual(['errors', 'overview', 'billing']);
+    expect(ranked[0]).toMatchObject({ vector_score: 0.8, lexical_score: 1 });
+    expect(ranked[0].score).toBeCloseTo(0.7 * 0.8 + 0.3);
+    expect(ranked[1]).toMatchObject({ vector_score: 0.9, lexical_score: 0 });
+    expect(ranked[1].score).toBeCloseTo(0.7 * 0.9);
+  });
+
+  it('adds reciprocal ranks in RRF fusion', () => {
+    const ranked = hybridRerank('ERR-4012 password', hits, { fusion: 'rrf', lexical_weight: 0.3 });
+
+    expect(ranked.map(result => result.file_id)).toEqual(['errors', 'overview', 'billing']);
+    expect(ranked[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(ranked[1].score).toBeCloseTo(1 / 61);
+    expect(ranked[2].score).toBeCloseTo(1 / 63);
+  });
+
+  it('keeps the vector ranking when no hit contains a query term', () => {
+    const ranked = hybridRerank('kubernetes', hits, { fusion: 'weighted', lexical_weight: 0.3 });
+
+    expect(ranked.map(result => [result.file_id, result.score, result.lexical_score])).toEqual([
+      ['overview', 0.9, 0],
+      ['errors', 0.8, 0],
+      ['billing', 0.7, 0]
+    ]);
+  });
+});
+
+describe('fuseMultiSearchResults', () => {
+  const rankings = [
+    { query: 'reset password', data: [hit('faq', 0.8, 'Use the reset link'), hit('guide', 0.7, 'Passwords expire yearly')] },
+    { query: 'forgot password', data: [hit('guide', 0.75, 'Passwords expire yearly'), hit('copy', 0.9, 'use the  RESET link')] }
+  ];
+
+  it('ranks files found by several queries first', () => {
+    const fused = fuseMultiSearchResults(rankings, 10);
+
+    expect(fused[0]).toMatchObject({ file_id: 'guide', vector_score: 0.75, matched_queries: ['reset password', 'forgot password'] });
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    // The chunk both queries returned is kept once
+    expect(fused[0].content).toHaveLength(1);
+    expect(fused[1]).toMatchObject({ file_id: 'faq', matched_queries: ['reset password'] });
+  });
+
+  it('drops files whose chunks all appeared in better-ranked files', () => {
+    expect(fuseMultiSearchResults(rankings, 10).map(result => result.file_id)).toEqual(['guide', 'faq']);
+  });
+
+  it('stops at the limit', () => {
+    expect(fuseMultiSearchResults(rankings, 1).map(result => result.file_id)).toEqual(['guide']);
+  });
+});
+
+describe('mergeFederatedResults', () => {
+  const responses = [
+    { instance: 'docs', data: [hit('install', 0.9, 'Install the CLI'), hit('upgrade', 0.45, 'Upgrade the CLI')] },
+    { instance: 'support', data: [hit('tickets', 0.3, 'Open a ticket'), { ...hit('mirror', 0.15, 'Install the CLI'), filename: 'install.md' }] }
+  ];
+
+  it('ranks by score across instances, normalized against the best hit overall', () => {
+    const merged = mergeFederatedResults(responses, 10);
+
+    expect(merged.map(result => [result.instance, result.file_id, result.normalized_score])).toEqual([
+      ['docs', 'install', 1],
+      ['docs', 'upgrade', 0.5],
+      ['support', 'tickets', 0.3 / 0.9]
+    ]);
+  });
+
+  it('does not lift the top hit of a weak instance above strong hits', () => {
+    const merged = mergeFederatedResults([
+      { instance: 'strong', data: [hit('a', 0.9, 'A'), hit('b', 0.8, 'B')] },
+      { instance: 'weak', data: [hit('c', 0.2, 'C')] }
+    ], 10);
+
+    expect(merged.map(result => result.file_id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('collapses results for the same file', () => {
+    expect(mergeFederatedResults(responses, 10).some(result => result.file_id === 'mirror')).toBe(false);
+  });
+
+  it('stops at the limit', () => {
+    expect(mergeFederatedResults(responses, 2).map(result => result.file_id)).toEqual(['install', 'upgrade']);
+  });
+
+  it('gives a normalized score of 0 when no hit has a positive score', () => {
+    const merged = mergeFederatedResults([{ instance: 'empty', data: [hit('zero', 0, 'Nothing')] }], 10);
+    expect(merged[0].normalized_score).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { consumeRateLimits, MemoryRateLimitStore } from '../src/server';
+
+// 2025-01-24 10:00:30 UTC, half way through a minute
+const NOW = Date.UTC(2025, 0, 24, 10, 0, 30);
+
+describe('consumeRateLimits', () => {
+  it('counts requests in the current minute', () => {
+    const first = consumeRateLimits(undefined, { requests: 2, ai_answers: 0 }, { requests_per_minute: 3 }, NOW);
+    expect(first.decision).toEqual({ allowed: true });
+    expect(first.counters.minute.requests).toBe(2);
+
+    const second = consumeRateLimits(first.counters, { requests: 1, ai_answers: 0 }, { requests_per_minute: 3 }, NOW + 1000);
+    expect(second.decision).toEqual({ allowed: true });
+    expect(second.counters.minute.requests).toBe(3);
+  });
+
+  it('refuses a call over the limit without counting it', () => {
+    const { counters } = consumeRateLimits(undefined, { requests: 3, ai_answers: 0 }, { requests_per_minute: 3 }, NOW);
+    const refused = consumeRateLimits(counters, { requests: 1, ai_answers: 0 }, { requests_per_minute: 3 }, NOW);
+
+    expect(refused.decision).toEqual({ allowed: false, limit: 'requests_per_minute', retry_after: 30 });
+    expect(refused.counters.minute.requests).toBe(3);
+  });
+
+  it('refuses a batch that would cross the limit as a whole', () => {
+    const { decision, counters } = consumeRateLimits(undefined, { requests: 4, ai_answers: 0 }, { requests_per_minute: 3 }, NOW);
+    expect(decision.allowed).toBe(false);
+    expect(counters.minute.requests).toBe(0);
+  });
+
+  it('starts a new window each minute', () => {
+    const { counters } = consumeRateLimits(undefined, { requests: 3, ai_answers: 0 }, { requests_per_minute: 3 }, NOW);
+    const next = consumeRateLimits(counters, { requests: 1, ai_answers: 0 }, { requests_per_minute: 3 }, NOW + 30_000);
+
+    expect(next.decision.allowed).toBe(true);
+    expect(next.counters.minute.requests).toBe(1);
+  });
+
+  it('caps AI answers per UTC day', () => {
+    const limits = { ai_answers_per_day: 1 };
+    const { counters } = consumeRateLimits(undefined, { requests: 1, ai_answers: 1 }, limits, NOW);
+    const refused = consumeRateLimits(counters, { requests: 1, ai_answers: 1 }, limits, NOW);
+    expect(refused.decision).toEqual({ allowed: false, limit: 'ai_answers_per_day', retry_after: 14 * 3600 - 30 });
+
+    // Other tools are not held back by the daily cap
+    expect(consumeRateLimits(counters, { requests: 1, ai_answers: 0 }, limits, NOW).decision.allowed).toBe(true);
+    expect(consumeRateLimits(counters, { requests: 1, ai_answers: 1 }, limits, Date.UTC(2025, 0, 25)).decision.allowed).toBe(true);
+  });
+
+  it('allows everything without limits', () => {
+    const { decision } = consumeRateLimits(undefined, { requests: 1000, ai_answers: 1000 }, {}, NOW);
+    expect(decision.allowed).toBe(true);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps separate counters per client', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const store = new MemoryRateLimitStore();
+    const limits = { requests_per_minute: 2 };
+    const usage = { requests: 1, ai_answers: 0 };
+
+    expect(await store.consume('key:a', usage, limits)).toEqual({ allowed: true });
+    expect(await store.consume('key:a', usage, limits)).toEqual({ allowed: true });
+    expect(await store.consume('key:a', usage, limits)).toEqual({ allowed: false, limit: 'requests_per_minute', retry_after: 30 });
+    expect(await store.consume('key:b', usage, limits)).toEqual({ allowed: true });
+
+    vi.setSystemTime(NOW + 30_000);
+    expect(await store.consume('key:a', usage, limits)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SearchCursors } from '../src/server';
+
+// SearchCursors only keeps its generated secret in storage
+function memoryStorage(): DurableObjectStorage {
+  const values = new Map<string, unknown>();
+  return {
+    get: async (key: string) => values.get(key),
+    put: async (key: string, value: unknown) => {
+      values.set(key, value);
+    }
+  } as unknown as DurableObjectStorage;
+}
+
+const state = {
+  tool: 'autorag_basic_search',
+  rag: 'docs',
+  query: 'reset password',
+  score_threshold: 0.5,
+  rewrite_query: false,
+  page_size: 10,
+  offset: 10
+};
+
+describe('SearchCursors', () => {
+  it('opens the cursors it issued', async () => {
+    const cursors = new SearchCursors('secret', memoryStorage());
+    const cursor = await cursors.issue(state);
+    expect(await cursors.open(cursor, 'autorag_basic_search')).toEqual(state);
+  });
+
+  it('rejects an altered cursor', async () => {
+    const cursors = new SearchCursors('secret', memoryStorage());
+    const [, signature] = (await cursors.issue(state)).split('.');
+    const payload = btoa(JSON.stringify({ ...state, rag: 'private' })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    await expect(cursors.open(`${payload}.${signature}`, 'autorag_basic_search'))
+      .rejects.toThrow('Invalid cursor: signature does not match');
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const cursors = new SearchCursors('secret', memoryStorage());
+    await expect(cursors.open('not!a!cursor', 'autorag_basic_search')).rejects.toThrow('Invalid cursor: malformed cursor');
+  });
+
+  it('rejects a cursor issued by another tool', async () => {
+    const cursors = new SearchCursors('secret', memoryStorage());
+    const cursor = await cursors.issue(state);
+    await expect(cursors.open(cursor, 'autorag_rewrite_search'))
+      .rejects.toThrow('Invalid cursor: issued by autorag_basic_search');
+  });
+
+  it('shares cursors between sessions with the same CURSOR_SECRET', async () => {
+    const cursor = await new SearchCursors('secret', memoryStorage()).issue(state);
+    expect(await new SearchCursors('secret', memoryStorage()).open(cursor, 'autorag_basic_search')).toEqual(state);
+    await expect(new SearchCursors('other', memoryStorage()).open(cursor, 'autorag_basic_search')).rejects.toThrow();
+  });
+
+  it('keeps cursors within the session without CURSOR_SECRET', async () => {
+    const storage = memoryStorage();
+    const cursor = await new SearchCursors(undefined, storage).issue(state);
+
+    // The generated secret survives the object being evicted
+    expect(await new SearchCursors(undefined, storage).open(cursor, 'autorag_basic_search')).toEqual(state);
+    await expect(new SearchCursors(undefined, memoryStorage()).open(cursor, 'autorag_basic_search')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import worker, { McpSession, RateLimiter } from '../src/server';
+
+const ORIGIN = 'https://autorag.example.com';
+
+type Env = ConstructorParameters<typeof McpSession>[1];
+
+// Enough of DurableObjectState for the session record, cursor secret and document index
+function memoryState(): DurableObjectState {
+  const values = new Map<string, unknown>();
+  return {
+    storage: {
+      get: async (key: string | string[]) => Array.isArray(key)
+        ? new Map(key.filter(k => values.has(k)).map(k => [k, structuredClone(values.get(k))]))
+        : structuredClone(values.get(key)),
+      put: async (key: string | Record<string, unknown>, value?: unknown) => {
+        if (typeof key === 'string') {
+          values.set(key, value);
+        } else {
+          Object.entries(key).forEach(([k, v]) => values.set(k, v));
+        }
+      },
+      deleteAll: async () => {
+        values.clear();
+      }
+    },
+    blockConcurrencyWhile: async (callback: () => Promise<unknown>) => callback(),
+    waitUntil: () => {}
+  } as unknown as DurableObjectState;
+}
+
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string, type?: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    }
+  } as unknown as KVNamespace;
+}
+
+// Each instance returns three hits named after it
+function hits(instance: string) {
+  return [0.9, 0.8, 0.7].map((score, index) => ({
+    file_id: `${instance}-${index}`,
+    filename: `${instance}-${index}.md`,
+    score,
+    attributes: {},
+    content: [{ id: `${instance}-${index}-chunk`, type: 'text', text: `Chunk ${index} of ${instance}` }]
+  }));
+}
+
+describe('MCP transport', () => {
+  let env: Env;
+  let searched: string[];
+  let answered: string[];
+
+  const post = (body: unknown, { key = 'key-1', session }: { key?: string; session?: string } = {}) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${key}`
+    };
+    if (session) {
+      headers['Mcp-Session-Id'] = session;
+    }
+    return worker.fetch(new Request(`${ORIGIN}/mcp`, { method: 'POST', headers, body: JSON.stringify(body) }), env);
+  };
+
+  const initialize = async (key = 'key-1') => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    }, { key });
+    expect(response.status).toBe(200);
+    return response.headers.get('Mcp-Session-Id')!;
+  };
+
+  const call = async (session: string, name: string, args: Record<string, unknown>, key = 'key-1') => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, { key, session });
+    return { status: response.status, body: await response.json<Record<string, any>>() };
+  };
+
+  beforeEach(() => {
+    searched = [];
+    answered = [];
+    const sessions = new Map<string, McpSession>();
+    const limiters = new Map<string, RateLimiter>();
+    env = {
+      AUTORAG_NAME: 'docs',
+      AUTORAG_INSTANCES: [
+        { name: 'docs', description: 'Product documentation' },
+        { name: 'private', description: 'Internal notes' }
+      ],
+      API_KEYS: JSON.stringify([
+        { key: 'key-1', label: 'support-bot', tools: ['autorag_basic_search', 'autorag_federated_search'], instances: ['docs'] },
+        { key: 'key-2', label: 'admin' }
+      ]),
+      CURSOR_SECRET: 'secret',
+      AI: {
+        autorag: (name: string) => ({
+          // Every rewrite comes out differently, as it may from the model
+          search: async ({ query, rewrite_query }: { query: string; rewrite_query?: boolean }) => {
+            searched.push(name);
+            const search_query = rewrite_query ? `${query} (rewrite ${searched.length})` : query;
+            return { object: 'vector_store.search_results.page', search_query, data: hits(name) };
+          },
+          aiSearch: async ({ query }: { query: string }) => {
+            answered.push(query);
+            return { object: 'vector_store.search_results.page', search_query: query, response: 'An answer', data: hits(name), has_more: false, next_page: null };
+          }
+        }),
+        run: async () => ({ response: 'Forgotten password\nRecover account' })
+      },
+      MCP_SESSION: {
+        idFromName: (name: string) => name,
+        get: (id: string) => {
+          if (!sessions.has(id)) {
+            sessions.set(id, new McpSession(memoryState(), env));
+          }
+          return sessions.get(id)!;
+        }
+      },
+      RATE_LIMITER: {
+        idFromName: (name: string) => name,
+        get: (id: string) => {
+          if (!limiters.has(id)) {
+            limiters.set(id, new RateLimiter(memoryState()));
+          }
+          return { fetch: (url: string, init: RequestInit) => limiters.get(id)!.fetch(new Request(url, init)) };
+        }
+      }
+    } as unknown as Env;
+  });
+
+  it('creates a new session on initialize, ignoring a session ID sent along', async () => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    }, { session: 'chosen-by-client' });
+
+    expect(response.status).toBe(200);
+    const session = response.headers.get('Mcp-Session-Id');
+    expect(session).toBeTruthy();
+    expect(session).not.toBe('chosen-by-client');
+    expect(await response.json()).toMatchObject({ id: 0, result: { protocolVersion: '2025-06-18' } });
+
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { session: session! })).status).toBe(200);
+  });
+
+  it('answers 404 for an unknown session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { session: 'unknown' });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: { code: -32001, message: 'Session not found' } });
+  });
+
+  it('refuses a session to another API key', async () => {
+    const session = await initialize('key-1');
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { key: 'key-2', session });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { message: 'Forbidden: The session belongs to another API key' } });
+  });
+
+  it('refuses tools and instances outside the key scope', async () => {
+    const session = await initialize();
+
+    expect(await call(session, 'autorag_vectorize_query', { query: 'reset password' })).toMatchObject({
+      status: 403,
+      body: { error: { message: "Forbidden: API key 'support-bot' may not call tool autorag_vectorize_query" } }
+    });
+    expect(await call(session, 'autorag_basic_search', { query: 'reset password', rag: 'private' })).toMatchObject({
+      status: 403,
+      body: { error: { message: "Forbidden: API key 'support-bot' may not use AutoRAG instance private" } }
+    });
+    expect(await call(session, 'autorag_federated_search', { query: 'reset password', rags: ['docs', 'private'] })).toMatchObject({
+      status: 403
+    });
+
+    // A batch is refused as a whole, so its allowed requests do not run either
+    const response = await post([
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'autorag_basic_search', arguments: { query: 'reset password' } } },
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'autorag_basic_search', arguments: { query: 'reset password', rag: 'private' } } }
+    ], { session });
+    expect(response.status).toBe(403);
+    expect(searched).toEqual([]);
+  });
+
+  it('searches only the instances of the key when a federated search names none', async () => {
+    const restricted = await call(await initialize('key-1'), 'autorag_federated_search', { query: 'reset password' });
+    expect(restricted.body.result.structuredContent.instances).toEqual(['docs']);
+    expect(searched).toEqual(['docs']);
+
+    const unrestricted = await call(await initialize('key-2'), 'autorag_federated_search', { query: 'reset password' }, 'key-2');
+    expect(unrestricted.body.result.structuredContent.instances).toEqual(['docs', 'private']);
+  });
+
+  it('rejects a cursor issued for an instance the key may not use', async () => {
+    // With CURSOR_SECRET cursors are valid across sessions, and so across keys
+    const issued = await call(await initialize('key-2'), 'autorag_basic_search', { query: 'reset password', rag: 'private', max_num_results: 1 }, 'key-2');
+    const cursor = issued.body.result.structuredContent.nextCursor;
+    expect(cursor).toBeTruthy();
+    searched = [];
+
+    const reused = await call(await initialize('key-1'), 'autorag_basic_search', { query: 'reset password', cursor });
+    expect(reused.status).toBe(200);
+    expect(reused.body.result.isError).toBe(true);
+    expect(JSON.parse(reused.body.result.content[0].text).error).toMatchObject({
+      code: 'invalid_input',
+      message: 'Invalid cursor: issued with different rag'
+    });
+    expect(searched).toEqual([]);
+  });
+
+  it('answers invalid batch entries one by one', async () => {
+    const session = await initialize();
+    const response = await post([{ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { id: 2 }, 42], { session });
+
+    expect(response.status).toBe(200);
+    const [list, ...invalid] = await response.json<Array<Record<string, any>>>();
+    expect(list).toMatchObject({ id: 1, result: { tools: expect.any(Array) } });
+    expect(invalid).toEqual([
+      { jsonrpc: '2.0', id: 2, error: { code: -32600, message: 'Invalid Request: Expected a JSON-RPC 2.0 message with a method' } },
+      { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request: Expected a JSON-RPC 2.0 message with a method' } }
+    ]);
+  });
+
+  it('acknowledges a POST of notifications only with 202', async () => {
+    const session = await initialize();
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { session });
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+
+  it('answers each request over the limit with an error of its own', async () => {
+    env.RATE_LIMITS = { requests_per_minute: 2 };
+    const session = await initialize('key-2');
+    const search = (id: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'autorag_basic_search', arguments: { query: 'reset password' } }
+    });
+    const response = await post([search(1), search(2), search(3)], { key: 'key-2', session });
+
+    expect(response.status).toBe(200);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    const [first, second, third] = await response.json<Array<Record<string, any>>>();
+    expect(first).toMatchObject({ id: 1, result: { structuredContent: { data: expect.any(Array) } } });
+    expect(second).toMatchObject({ id: 2, result: { structuredContent: { data: expect.any(Array) } } });
+    expect(third).toMatchObject({
+      id: 3,
+      error: { code: -32000, data: { limit: 'requests_per_minute', retry_after: expect.any(Number) } }
+    });
+    expect(searched).toHaveLength(2);
+  });
+
+  it('counts AI answers once generated, not when answered from the cache', async () => {
+    env.RATE_LIMITS = { ai_answers_per_day: 1 };
+    env.CACHE_KV = memoryKv();
+    const session = await initialize('key-2');
+    const ask = (query: string) => call(session, 'autorag_ai_search', { query, include_ai_response: false }, 'key-2');
+
+    expect((await ask('reset password')).body.result.structuredContent.cache).toBe('miss');
+    expect((await ask('reset password')).body.result.structuredContent.cache).toBe('hit');
+    expect((await ask('change email')).body).toMatchObject({
+      id: 1,
+      error: { code: -32000, data: { limit: 'ai_answers_per_day' } }
+    });
+    expect(answered).toEqual(['reset password']);
+  });
+
+  it('counts paraphrase generation against the AI answers', async () => {
+    env.RATE_LIMITS = { ai_answers_per_day: 1 };
+    const session = await initialize('key-2');
+
+    const paraphrased = await call(session, 'autorag_multi_search', { query: 'reset password' }, 'key-2');
+    expect(paraphrased.body.result.structuredContent.queries).toEqual(['reset password', 'Forgotten password', 'Recover account']);
+    // Given queries generate nothing
+    expect((await call(session, 'autorag_multi_search', { queries: ['change email'] }, 'key-2')).body.result).toBeDefined();
+    expect((await call(session, 'autorag_multi_search', { query: 'change email' }, 'key-2')).body).toMatchObject({
+      error: { code: -32000, data: { limit: 'ai_answers_per_day' } }
+    });
+  });
+
+  it('pages a rewrite search with the query as rewritten for the first page', async () => {
+    const session = await initialize('key-2');
+    const search = (cursor?: string) => call(session, 'autorag_rewrite_search', { query: 'reset password', max_num_results: 1, cursor }, 'key-2');
+
+    const first = (await search()).body.result.structuredContent;
+    expect(first.search_query).toBe('reset password (rewrite 1)');
+    const second = (await search(first.nextCursor)).body.result.structuredContent;
+    expect(second.search_query).toBe('reset password (rewrite 1)');
+    expect(second.data.map((hit: { file_id: string }) => hit.file_id)).toEqual(['docs-1']);
+    const third = (await search(second.nextCursor)).body.result.structuredContent;
+    expect(third.search_query).toBe('reset password (rewrite 1)');
+  });
+});
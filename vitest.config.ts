@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // typescript-sdk-main is a reference copy of the MCP SDK with tests of its own
+    include: ['test/**/*.test.ts']
+  }
+});